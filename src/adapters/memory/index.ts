@@ -0,0 +1,22 @@
+/**
+ * In-memory adapter for elysia-messaging (tests and local development)
+ * 
+ * Usage:
+ * ```typescript
+ * import { InMemoryBroker, InMemoryBus, InMemoryConsumer, InMemoryDedupeStore } from 'elysia-messaging/memory'
+ * 
+ * // Bus and consumer must share the same broker
+ * const broker = new InMemoryBroker()
+ * const bus = new InMemoryBus(broker)
+ * const consumer = new InMemoryConsumer(broker)
+ * ```
+ */
+
+export * from './memory.broker'
+export * from './memory.bus'
+export * from './memory.consumer'
+export * from './memory-dedupe.store'
+export * from './memory-dead-letter.queue'
+export * from './memory-schedule.store'
+export * from './memory.inspector'
+export * from './memory.constants'
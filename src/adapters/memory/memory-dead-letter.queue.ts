@@ -0,0 +1,82 @@
+/**
+ * In-memory implementation of DeadLetterQueue
+ */
+
+import type {
+  DeadLetterQueue,
+  DeadLetterEntry,
+  DeadLetterListOptions,
+} from '../../core/dead-letter-queue.port'
+import type { MessageEnvelope } from '../../core/message-envelope'
+import type { InMemoryBroker } from './memory.broker'
+
+/**
+ * Failure metadata stored alongside the envelope
+ */
+export type InMemoryDeadLetterFailure = Omit<DeadLetterEntry, 'id' | 'envelope'>
+
+export class InMemoryDeadLetterQueue implements DeadLetterQueue {
+  private entries: DeadLetterEntry<any>[] = []
+  private sequence = 0
+
+  /** Back-reference to the broker (#private: keeps the broker JSON-serializable, e.g. as a plugin seed) */
+  readonly #broker: InMemoryBroker
+
+  constructor(broker: InMemoryBroker) {
+    this.#broker = broker
+  }
+
+  /**
+   * Add a failed message to the DLQ
+   * @returns DLQ entry ID
+   */
+  add<T>(envelope: MessageEnvelope<T>, failure: InMemoryDeadLetterFailure): string {
+    const id = `${Date.now()}-${this.sequence++}`
+    this.entries.push({ id, envelope, ...failure })
+    return id
+  }
+
+  async list<T = unknown>(options: DeadLetterListOptions = {}): Promise<DeadLetterEntry<T>[]> {
+    const { count = 100, topic, after } = options
+    const start = after ? this.entries.findIndex((entry) => entry.id === after) + 1 : 0
+
+    return this.entries
+      .slice(start)
+      .filter((entry) => !topic || entry.topic === topic)
+      .slice(0, count)
+  }
+
+  async get<T = unknown>(id: string): Promise<DeadLetterEntry<T> | undefined> {
+    return this.entries.find((entry) => entry.id === id)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = this.entries.length
+    this.entries = this.entries.filter((entry) => entry.id !== id)
+    return this.entries.length < before
+  }
+
+  async redrive<T = unknown>(id: string): Promise<MessageEnvelope<T> | undefined> {
+    const entry = await this.get<T>(id)
+    if (!entry) {
+      return undefined
+    }
+
+    const envelope: MessageEnvelope<T> = { ...entry.envelope, attempts: 0 }
+    this.#broker.publish(entry.topic, envelope, { targetGroup: entry.consumerGroup })
+    await this.delete(id)
+
+    return envelope
+  }
+
+  async size(): Promise<number> {
+    return this.entries.length
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries = []
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * In-memory implementation of DedupeStore
+ * Keeps processed event IDs and processing leases in a Map with expiry timestamps
+ */
+
+import type { DedupeAcquireResult, DedupeStore } from '../../core/dedupe-store.port'
+import { InMemory } from './memory.constants'
+
+interface DedupeEntry {
+  /** Leased (being processed) rather than processed */
+  processing: boolean
+  expiresAt: number
+}
+
+export class InMemoryDedupeStore implements DedupeStore {
+  private readonly entries = new Map<string, DedupeEntry>()
+
+  async has(eventId: string): Promise<boolean> {
+    const entry = this.getEntry(eventId)
+    return entry !== undefined && !entry.processing
+  }
+
+  async mark(
+    eventId: string,
+    ttlSeconds: number = InMemory.DEFAULTS.DEDUPE_TTL_SECONDS
+  ): Promise<void> {
+    this.entries.set(eventId, { processing: false, expiresAt: Date.now() + ttlSeconds * 1000 })
+  }
+
+  async remove(eventId: string): Promise<void> {
+    this.entries.delete(eventId)
+  }
+
+  async tryAcquire(eventId: string, leaseMs: number): Promise<DedupeAcquireResult> {
+    const entry = this.getEntry(eventId)
+    if (entry) {
+      return entry.processing ? 'in-progress' : 'completed'
+    }
+
+    this.entries.set(eventId, { processing: true, expiresAt: Date.now() + leaseMs })
+    return 'acquired'
+  }
+
+  async complete(eventId: string, ttlSeconds?: number): Promise<void> {
+    await this.mark(eventId, ttlSeconds)
+  }
+
+  async release(eventId: string): Promise<void> {
+    if (this.getEntry(eventId)?.processing) {
+      this.entries.delete(eventId)
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release (entries survive like they would in an external store)
+  }
+
+  /**
+   * Unexpired entry of an event
+   */
+  private getEntry(eventId: string): DedupeEntry | undefined {
+    const entry = this.entries.get(eventId)
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(eventId)
+      return undefined
+    }
+    return entry
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * In-memory implementation of ScheduleStore
+ * Coordinates schedulers sharing the instance (one process)
+ */
+
+import type { ScheduleStore } from '../../core/schedule-store.port'
+
+export class InMemoryScheduleStore implements ScheduleStore {
+  private readonly claims = new Map<string, number>()
+  private readonly lastTicks = new Map<string, number>()
+
+  async claim(name: string, tick: number, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+    for (const [key, expiry] of this.claims) {
+      if (expiry <= now) this.claims.delete(key)
+    }
+
+    const key = `${name}:${tick}`
+    if (this.claims.has(key)) {
+      return false
+    }
+
+    this.claims.set(key, now + ttlMs)
+    this.lastTicks.set(name, Math.max(this.lastTicks.get(name) ?? tick, tick))
+    return true
+  }
+
+  async release(name: string, tick: number, lastTick?: number): Promise<void> {
+    this.claims.delete(`${name}:${tick}`)
+
+    if (this.lastTicks.get(name) === tick) {
+      if (lastTick === undefined) {
+        this.lastTicks.delete(name)
+      } else {
+        this.lastTicks.set(name, lastTick)
+      }
+    }
+  }
+
+  async getLastTick(name: string): Promise<number | undefined> {
+    return this.lastTicks.get(name)
+  }
+
+  async clear(name: string): Promise<void> {
+    this.lastTicks.delete(name)
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
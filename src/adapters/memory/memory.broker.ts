@@ -0,0 +1,342 @@
+/**
+ * In-process broker shared by the in-memory bus and consumer
+ * Emulates Redis Streams consumer groups: every group sees every message
+ * (fan-out), consumers within a group share them (load balancing), and
+ * delivered messages stay pending until acknowledged
+ */
+
+import type { MessageEnvelope } from '../../core/message-envelope'
+import { InMemoryDeadLetterQueue } from './memory-dead-letter.queue'
+
+/**
+ * A message stored in a topic
+ */
+export interface InMemoryEntry<T = unknown> {
+  /** Entry ID (`<ms>-<seq>`, ordered like Redis Stream IDs) */
+  id: string
+
+  envelope: MessageEnvelope<T>
+
+  /** Only deliver to this consumer group (broker-side retries, DLQ redrives) */
+  targetGroup?: string
+}
+
+/**
+ * An entry handed to a consumer
+ */
+export interface InMemoryDelivery<T = unknown> {
+  entry: InMemoryEntry<T>
+  deliveryCount: number
+}
+
+/**
+ * Consumer group summary (for inspection)
+ */
+export interface InMemoryGroupInfo {
+  name: string
+  /** Delivered but not yet acknowledged */
+  pending: number
+  /** Entries never delivered to this group */
+  lag: number
+}
+
+interface PendingEntry {
+  consumerName: string
+  deliveryCount: number
+  deliveredAt: number
+}
+
+interface GroupState {
+  /** Index of the next entry never delivered to this group */
+  cursor: number
+  pending: Map<string, PendingEntry>
+}
+
+interface TopicState {
+  entries: InMemoryEntry[]
+  groups: Map<string, GroupState>
+  /** Blocked readers waiting for new entries */
+  waiters: Set<() => void>
+}
+
+export class InMemoryBroker {
+  private readonly topics = new Map<string, TopicState>()
+  /** Scheduled deliveries by schedule ID */
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private lastTimestamp = 0
+  private sequence = 0
+  private closed = false
+
+  /** Dead letter queue shared by all in-memory consumers of this broker */
+  readonly dlq = new InMemoryDeadLetterQueue(this)
+
+  /** True after close() (blocked readers are released and reads return immediately) */
+  get isClosed(): boolean {
+    return this.closed
+  }
+
+  /** Number of scheduled deliveries not yet published */
+  get scheduledCount(): number {
+    return this.timers.size
+  }
+
+  /**
+   * Append a message to a topic and wake up blocked readers
+   * @returns entry ID
+   */
+  publish<T>(
+    topic: string,
+    envelope: MessageEnvelope<T>,
+    options: { targetGroup?: string } = {}
+  ): string {
+    const state = this.getTopic(topic)
+    const entry: InMemoryEntry<T> = { id: this.nextId(), envelope, ...options }
+
+    state.entries.push(entry)
+    this.wake(state)
+
+    return entry.id
+  }
+
+  /**
+   * Publish a message once `deliverAt` (epoch ms) is reached
+   * The schedule ID is the eventId (`targetGroup:eventId` for a group-only retry);
+   * scheduling the same ID again replaces it.
+   * @returns schedule ID (see cancelScheduled)
+   */
+  schedule<T>(
+    topic: string,
+    envelope: MessageEnvelope<T>,
+    deliverAt: number,
+    options: { targetGroup?: string } = {}
+  ): string {
+    const id = options.targetGroup ? `${options.targetGroup}:${envelope.eventId}` : envelope.eventId
+    this.cancelScheduled(id)
+
+    const timer = setTimeout(() => {
+      this.timers.delete(id)
+      this.publish(topic, envelope, options)
+    }, Math.max(deliverAt - Date.now(), 0))
+
+    this.timers.set(id, timer)
+    return id
+  }
+
+  /**
+   * Cancel a scheduled delivery
+   * @returns true if it was still scheduled
+   */
+  cancelScheduled(id: string): boolean {
+    const timer = this.timers.get(id)
+    if (!timer) {
+      return false
+    }
+
+    clearTimeout(timer)
+    this.timers.delete(id)
+    return true
+  }
+
+  /**
+   * Create a consumer group (reads from the beginning of the topic, like `XGROUP CREATE ... 0`)
+   */
+  ensureGroup(topic: string, group: string): void {
+    const state = this.getTopic(topic)
+    if (!state.groups.has(group)) {
+      state.groups.set(group, { cursor: 0, pending: new Map() })
+    }
+  }
+
+  /**
+   * Read never-delivered entries for a group, waiting up to `blockMs` for new ones
+   * (aborting `signal` releases a blocked read with no entries)
+   */
+  async read(
+    topic: string,
+    group: string,
+    consumerName: string,
+    count: number,
+    blockMs: number,
+    signal?: AbortSignal
+  ): Promise<InMemoryDelivery[]> {
+    const state = this.getTopic(topic)
+    const deadline = Date.now() + blockMs
+
+    while (true) {
+      if (signal?.aborted) {
+        return []
+      }
+
+      const deliveries = this.takeNew(state, topic, group, consumerName, count)
+      const remainingMs = deadline - Date.now()
+
+      if (deliveries.length > 0 || remainingMs <= 0 || this.closed) {
+        return deliveries
+      }
+
+      await this.waitForEntries(state, remainingMs, signal)
+    }
+  }
+
+  /**
+   * Claim entries pending for longer than `minIdleMs` (any consumer of the group),
+   * incrementing their delivery count (like `XAUTOCLAIM`)
+   */
+  claimIdle(
+    topic: string,
+    group: string,
+    consumerName: string,
+    minIdleMs: number,
+    count: number
+  ): InMemoryDelivery[] {
+    const state = this.getTopic(topic)
+    const groupState = this.getGroup(state, topic, group)
+    const now = Date.now()
+    const deliveries: InMemoryDelivery[] = []
+
+    for (const entry of state.entries) {
+      if (deliveries.length >= count) break
+
+      const pending = groupState.pending.get(entry.id)
+      if (!pending || now - pending.deliveredAt < minIdleMs) continue
+
+      pending.consumerName = consumerName
+      pending.deliveryCount++
+      pending.deliveredAt = now
+      deliveries.push({ entry, deliveryCount: pending.deliveryCount })
+    }
+
+    return deliveries
+  }
+
+  /**
+   * Acknowledge an entry for a group
+   * @returns true if the entry was pending
+   */
+  ack(topic: string, group: string, id: string): boolean {
+    const groupState = this.topics.get(topic)?.groups.get(group)
+    return groupState?.pending.delete(id) ?? false
+  }
+
+  /**
+   * All entries of a topic (oldest first)
+   */
+  getEntries(topic: string): readonly InMemoryEntry[] {
+    return this.topics.get(topic)?.entries ?? []
+  }
+
+  /**
+   * Consumer groups of a topic with pending and lag counts
+   */
+  getGroups(topic: string): InMemoryGroupInfo[] {
+    const state = this.topics.get(topic)
+    if (!state) return []
+
+    return [...state.groups].map(([name, groupState]) => ({
+      name,
+      pending: groupState.pending.size,
+      lag: state.entries.length - groupState.cursor,
+    }))
+  }
+
+  /**
+   * Names of all topics that have been published to or subscribed
+   */
+  getTopics(): string[] {
+    return [...this.topics.keys()]
+  }
+
+  /**
+   * Cancel scheduled deliveries and release blocked readers
+   */
+  close(): void {
+    this.closed = true
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+
+    for (const state of this.topics.values()) {
+      this.wake(state)
+    }
+  }
+
+  /**
+   * Drop all topics, groups and DLQ entries (e.g. between tests)
+   */
+  reset(): void {
+    this.close()
+    this.topics.clear()
+    this.dlq.clear()
+    this.closed = false
+  }
+
+  private takeNew(
+    state: TopicState,
+    topic: string,
+    group: string,
+    consumerName: string,
+    count: number
+  ): InMemoryDelivery[] {
+    const groupState = this.getGroup(state, topic, group)
+    const deliveries: InMemoryDelivery[] = []
+
+    while (groupState.cursor < state.entries.length && deliveries.length < count) {
+      const entry = state.entries[groupState.cursor++]
+
+      // Targeted at another group: never delivered here
+      if (entry.targetGroup && entry.targetGroup !== group) continue
+
+      groupState.pending.set(entry.id, { consumerName, deliveryCount: 1, deliveredAt: Date.now() })
+      deliveries.push({ entry, deliveryCount: 1 })
+    }
+
+    return deliveries
+  }
+
+  private waitForEntries(state: TopicState, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer)
+        state.waiters.delete(wake)
+        signal?.removeEventListener('abort', wake)
+        resolve()
+      }
+      const timer = setTimeout(wake, timeoutMs)
+      state.waiters.add(wake)
+      signal?.addEventListener('abort', wake, { once: true })
+    })
+  }
+
+  private wake(state: TopicState): void {
+    for (const wake of [...state.waiters]) {
+      wake()
+    }
+  }
+
+  private getTopic(topic: string): TopicState {
+    let state = this.topics.get(topic)
+    if (!state) {
+      state = { entries: [], groups: new Map(), waiters: new Set() }
+      this.topics.set(topic, state)
+    }
+    return state
+  }
+
+  private getGroup(state: TopicState, topic: string, group: string): GroupState {
+    const groupState = state.groups.get(group)
+    if (!groupState) {
+      throw new Error(`Consumer group "${group}" does not exist on "${topic}"`)
+    }
+    return groupState
+  }
+
+  private nextId(): string {
+    // Never go backwards, even if the clock does
+    const now = Math.max(Date.now(), this.lastTimestamp)
+    this.sequence = now === this.lastTimestamp ? this.sequence + 1 : 0
+    this.lastTimestamp = now
+    return `${now}-${this.sequence}`
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * In-memory implementation of MessageBus
+ */
+
+import type { MessageBus, PublishOptions } from '../../core/message-bus.port'
+import { resolveDeliverAt } from '../../core/message-bus.port'
+import type { MessageEnvelope } from '../../core/message-envelope'
+import type { TopicName } from '../../core/topics'
+import { InMemoryBroker } from './memory.broker'
+
+export class InMemoryBus implements MessageBus {
+  constructor(readonly broker: InMemoryBroker = new InMemoryBroker()) {}
+
+  async publish<T>(
+    topic: TopicName | string,
+    envelope: MessageEnvelope<T>,
+    options?: PublishOptions
+  ): Promise<void> {
+    const deliverAt = resolveDeliverAt(options)
+    if (deliverAt !== undefined) {
+      this.broker.schedule(topic, envelope, deliverAt)
+      return
+    }
+
+    this.broker.publish(topic, envelope)
+  }
+
+  async cancelScheduled(eventId: string): Promise<boolean> {
+    return this.broker.cancelScheduled(eventId)
+  }
+
+  async publishBatch<T>(
+    topic: TopicName | string,
+    envelopes: MessageEnvelope<T>[]
+  ): Promise<Array<Error | undefined>> {
+    return envelopes.map((envelope) => {
+      this.broker.publish(topic, envelope)
+      return undefined
+    })
+  }
+
+  async ping(): Promise<void> {
+    if (this.broker.isClosed) {
+      throw new Error('In-memory broker is closed')
+    }
+  }
+
+  async close(): Promise<void> {
+    // Broker lifecycle is managed externally (shared with consumers)
+  }
+}
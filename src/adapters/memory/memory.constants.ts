@@ -0,0 +1,27 @@
+/**
+ * In-memory adapter constants and configuration
+ */
+
+export const InMemory = {
+  /** Default configuration (tuned for fast tests) */
+  DEFAULTS: {
+    /** Maximum retry attempts before DLQ */
+    MAX_RETRIES: 5,
+    /** Block time when waiting for messages (ms) */
+    BLOCK_MS: 1000,
+    /** Number of messages to read per batch */
+    BATCH_SIZE: 10,
+    /** Handlers running at the same time per subscription */
+    CONCURRENCY: 1,
+    /** Messages returned by the inspector's getRecentMessages() */
+    RECENT_MESSAGES: 20,
+    /** How long close() waits for in-flight handlers (ms) */
+    CLOSE_TIMEOUT_MS: 5000,
+    /** Minimum idle time before a pending message is reclaimed (ms) */
+    CLAIM_MIN_IDLE_MS: 1000,
+    /** Interval between reclaim cycles (ms) */
+    CLAIM_INTERVAL_MS: 500,
+    /** Deduplication TTL (24 hours) */
+    DEDUPE_TTL_SECONDS: 86400,
+  },
+} as const
@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from '../../core/registry'
+import { createConsumer } from '../../core/consumer-descriptor'
+import type { ConsumerOptions } from '../../core/consumer-descriptor'
+import type { MessageEnvelope } from '../../core/message-envelope'
+import { NonRetryableError } from '../../core/errors'
+import type { TestHarness } from '../../testing'
+import { createTestHarness } from '../../testing'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String(), step: Type.Number() }),
+  },
+})
+
+type Harness = TestHarness<typeof registry>
+type Job = { videoId: string; step: number }
+
+let harness: Harness | undefined
+
+afterEach(async () => {
+  await harness?.stop()
+  harness = undefined
+})
+
+/**
+ * Start a harness running one video.jobs consumer
+ */
+async function startConsumer(
+  options: ConsumerOptions,
+  handler: (envelope: MessageEnvelope<Job>) => Promise<void>
+): Promise<Harness> {
+  const consumer = createConsumer(registry, {
+    topic: 'video.jobs',
+    group: 'workers',
+    name: 'worker-1',
+    options,
+    handler: (envelope) => handler(envelope),
+  })
+
+  harness = createTestHarness(registry, { consumers: [consumer] })
+  await harness.start()
+  return harness
+}
+
+/**
+ * Track how many handlers run at the same time
+ */
+function trackInFlight() {
+  const state = { current: 0, max: 0 }
+  return {
+    state,
+    async run(work: () => Promise<void>) {
+      state.max = Math.max(state.max, ++state.current)
+      try {
+        await work()
+      } finally {
+        state.current--
+      }
+    },
+  }
+}
+
+const groupOf = (harness: Harness) => harness.broker.getGroups('video.jobs')[0]
+
+describe('InMemoryConsumer ordering and concurrency', () => {
+  test('never runs more handlers than `concurrency`', async () => {
+    const inFlight = trackInFlight()
+    const harness = await startConsumer({ concurrency: 2 }, () =>
+      inFlight.run(() => Bun.sleep(20))
+    )
+
+    for (let step = 0; step < 6; step++) {
+      await harness.publish('video.jobs', { videoId: 'v1', step })
+    }
+    await harness.drain()
+
+    expect(inFlight.state.max).toBe(2)
+    expect(groupOf(harness)).toMatchObject({ pending: 0, lag: 0 })
+  })
+
+  test('handles messages sharing an ordering key one at a time, in order', async () => {
+    const inFlight = trackInFlight()
+    const handled: number[] = []
+    const harness = await startConsumer(
+      { concurrency: 4, orderingKey: (envelope) => envelope.payload.videoId },
+      (envelope) =>
+        inFlight.run(async () => {
+          await Bun.sleep(5 * (5 - envelope.payload.step))
+          handled.push(envelope.payload.step)
+        })
+    )
+
+    for (let step = 0; step < 5; step++) {
+      await harness.publish('video.jobs', { videoId: 'v1', step })
+    }
+    await harness.drain()
+
+    expect(handled).toEqual([0, 1, 2, 3, 4])
+    expect(inFlight.state.max).toBe(1)
+  })
+
+  test('runs different ordering keys in parallel', async () => {
+    const started: string[] = []
+    let release!: () => void
+    const blocked = new Promise<void>((resolve) => (release = resolve))
+
+    const harness = await startConsumer(
+      { concurrency: 2, orderingKey: (envelope) => envelope.payload.videoId },
+      async (envelope) => {
+        started.push(envelope.payload.videoId)
+        if (envelope.payload.videoId === 'slow') await blocked
+      }
+    )
+
+    await harness.publish('video.jobs', { videoId: 'slow', step: 0 })
+    await harness.publish('video.jobs', { videoId: 'slow', step: 1 })
+    await harness.publish('video.jobs', { videoId: 'fast', step: 0 })
+    await Bun.sleep(50)
+
+    // The second "slow" message waits for the first without holding up "fast"
+    expect(started).toEqual(['slow', 'fast'])
+
+    release()
+    await harness.drain()
+    expect(started).toEqual(['slow', 'fast', 'slow'])
+  })
+})
+
+describe('InMemoryConsumer dispositions', () => {
+  test('dead-letters non-retryable failures and acknowledges them', async () => {
+    const harness = await startConsumer({}, async () => {
+      throw new NonRetryableError('corrupt video')
+    })
+
+    await harness.publish('video.jobs', { videoId: 'v1', step: 0 })
+    await harness.drain()
+
+    const [entry] = await harness.dlq.list<Job>()
+    expect(entry).toMatchObject({
+      topic: 'video.jobs',
+      consumerGroup: 'workers',
+      envelope: { payload: { videoId: 'v1', step: 0 } },
+      error: { message: 'corrupt video' },
+    })
+    expect(groupOf(harness)).toMatchObject({ pending: 0, lag: 0 })
+  })
+
+  test('re-delivers broker retries after the delay with the attempt count', async () => {
+    const attempts: number[] = []
+    const harness = await startConsumer(
+      { retryMode: 'broker', retry: { type: 'fixed', delayMs: 30 } },
+      async (envelope) => {
+        attempts.push(envelope.attempts ?? 0)
+        if (attempts.length < 3) throw new Error('busy')
+      }
+    )
+
+    const publishedAt = Date.now()
+    await harness.publish('video.jobs', { videoId: 'v1', step: 0 })
+    await harness.drain()
+
+    expect(attempts).toEqual([1, 2, 3])
+    expect(Date.now() - publishedAt).toBeGreaterThanOrEqual(60)
+    expect(await harness.dlq.size()).toBe(0)
+  })
+})
+
+describe('InMemoryConsumer drain', () => {
+  test('waits for in-flight handlers before closing', async () => {
+    let finished = false
+    const harness = await startConsumer({}, async () => {
+      await Bun.sleep(50)
+      finished = true
+    })
+
+    await harness.publish('video.jobs', { videoId: 'v1', step: 0 })
+    await Bun.sleep(10)
+    await harness.consumer.close({ timeoutMs: 1000 })
+
+    expect(finished).toBe(true)
+    expect(groupOf(harness)).toMatchObject({ pending: 0 })
+  })
+
+  test('leaves aborted messages pending and acknowledges the completed ones', async () => {
+    let release!: () => void
+    const blocked = new Promise<void>((resolve) => (release = resolve))
+
+    const harness = await startConsumer(
+      { concurrency: 2, orderingKey: false },
+      async (envelope) => {
+        if (envelope.payload.step === 0) {
+          await blocked // Outlives the drain timeout
+        }
+      }
+    )
+
+    await harness.publish('video.jobs', { videoId: 'v1', step: 0 })
+    await harness.publish('video.jobs', { videoId: 'v1', step: 1 })
+    await Bun.sleep(30)
+
+    // Step 1 completed but waits for step 0's ACK until the drain aborts
+    expect(groupOf(harness)).toMatchObject({ pending: 2 })
+
+    await harness.consumer.close({ timeoutMs: 50 })
+
+    expect(groupOf(harness)).toMatchObject({ pending: 1 })
+    release()
+  })
+})
@@ -0,0 +1,361 @@
+/**
+ * In-memory implementation of MessageConsumer
+ */
+
+import type {
+  MessageConsumer,
+  MessageHandler,
+  ConsumerOptions,
+  ConsumerCloseOptions,
+  OrderingKey,
+  Subscription,
+} from '../../core/message-consumer.port'
+import type { MessageEnvelope } from '../../core/message-envelope'
+import type { TopicName } from '../../core/topics'
+import {
+  AckSequencer,
+  ConcurrencyLimiter,
+  KeyedSerializer,
+  resolveOrderingKey,
+  settlesWithin,
+} from '../../core/concurrency'
+import { SubscriptionControl } from '../../core/subscription'
+import type { InMemoryDeadLetterQueue } from './memory-dead-letter.queue'
+import type { InMemoryDelivery } from './memory.broker'
+import { InMemoryBroker } from './memory.broker'
+import { InMemory } from './memory.constants'
+
+/**
+ * Resolved settings of a single subscribe() call
+ */
+interface SubscriptionState<T> {
+  topic: string
+  consumerGroup: string
+  consumerName: string
+  handler: MessageHandler<T>
+  blockMs: number
+  batchSize: number
+  maxRetries: number
+  claimMinIdleMs: number
+  claimIntervalMs: number
+  /** Bounds in-flight handlers */
+  limiter: ConcurrencyLimiter
+  /** Bounds messages fetched but still waiting for their ordering key or a slot */
+  backlog: ConcurrencyLimiter
+  /** Releases ACKs in delivery order */
+  acks: AckSequencer
+  /** Derives the ordering key of a message */
+  orderingKey: OrderingKey<T>
+  /** Serializes messages sharing an ordering key */
+  ordering: KeyedSerializer
+  /** Aborted on close() to release a blocked read */
+  stop: AbortController
+  /** Aborted when the drain times out (signal passed to handlers) */
+  abort: AbortController
+  /** Settles when the consume loop has exited */
+  loop: Promise<void>
+  /** Lifecycle and stats (returned by subscribe()) */
+  control: SubscriptionControl
+}
+
+export class InMemoryConsumer implements MessageConsumer {
+  private readonly subscriptions = new Set<SubscriptionState<any>>()
+
+  constructor(readonly broker: InMemoryBroker = new InMemoryBroker()) {}
+
+  /** Dead letter queue of the underlying broker (inspect, delete, redrive) */
+  get dlq(): InMemoryDeadLetterQueue {
+    return this.broker.dlq
+  }
+
+  async subscribe<T>(
+    topic: TopicName | string,
+    handler: MessageHandler<T>,
+    options: ConsumerOptions
+  ): Promise<Subscription> {
+    const {
+      consumerGroup,
+      consumerName,
+      maxRetries = InMemory.DEFAULTS.MAX_RETRIES,
+      blockMs = InMemory.DEFAULTS.BLOCK_MS,
+      concurrency = InMemory.DEFAULTS.CONCURRENCY,
+      batchSize = InMemory.DEFAULTS.BATCH_SIZE,
+      claimMinIdleMs = InMemory.DEFAULTS.CLAIM_MIN_IDLE_MS,
+      claimIntervalMs = InMemory.DEFAULTS.CLAIM_INTERVAL_MS,
+    } = options
+
+    const limiter = new ConcurrencyLimiter(concurrency)
+    this.broker.ensureGroup(topic, consumerGroup)
+
+    const control = new SubscriptionControl({ topic, consumerGroup, consumerName }, limiter, (options) =>
+      this.drainSubscription(sub, options)
+    )
+
+    // Start consuming loop in background
+    const sub: SubscriptionState<T> = {
+      topic,
+      consumerGroup,
+      consumerName,
+      handler,
+      blockMs,
+      batchSize,
+      maxRetries,
+      claimMinIdleMs,
+      claimIntervalMs,
+      limiter,
+      backlog: new ConcurrencyLimiter(batchSize),
+      acks: new AckSequencer(),
+      orderingKey: resolveOrderingKey(options.orderingKey),
+      ordering: new KeyedSerializer(),
+      stop: new AbortController(),
+      abort: new AbortController(),
+      loop: Promise.resolve(),
+      control,
+    }
+    sub.loop = this.consumeLoop(sub)
+    this.subscriptions.add(sub)
+
+    return control
+  }
+
+  /**
+   * Main consumer loop
+   */
+  private async consumeLoop<T>(sub: SubscriptionState<T>): Promise<void> {
+    const { topic, consumerGroup, consumerName, blockMs } = sub
+    let lastClaimAt = Date.now()
+
+    while (sub.control.isActive && !this.broker.isClosed) {
+      try {
+        // Paused: fetch nothing until resumed or stopped
+        await sub.control.waitWhilePaused()
+        if (!sub.control.isActive) break
+
+        // Periodically pick up entries left un-ACKed (failed or abandoned)
+        if (Date.now() - lastClaimAt >= sub.claimIntervalMs) {
+          lastClaimAt = Date.now()
+          await this.reclaimPending(sub)
+        }
+
+        const deliveries = await this.broker.read(
+          topic,
+          consumerGroup,
+          consumerName,
+          sub.batchSize,
+          Math.min(blockMs, sub.claimIntervalMs),
+          sub.stop.signal
+        )
+        sub.control.polled()
+
+        // Stops early on shutdown, leaving the rest of the batch pending for reclaim
+        for (const delivery of deliveries) {
+          if (!sub.control.isActive) break
+          await this.dispatch(sub, delivery as InMemoryDelivery<T>)
+        }
+      } catch (error) {
+        console.error(`[InMemoryConsumer] Consumer loop error:`, error)
+        sub.control.loopFailed(error)
+        await new Promise((resolve) => setTimeout(resolve, 100)) // Wait before retry
+      }
+    }
+  }
+
+  /**
+   * Queue an entry behind earlier entries with the same ordering key; it takes a
+   * concurrency slot only once its key is free (returns once the entry is queued,
+   * waiting while `batchSize` entries are already queued)
+   */
+  private async dispatch<T>(sub: SubscriptionState<T>, delivery: InMemoryDelivery<T>): Promise<void> {
+    const { id, envelope } = delivery.entry
+
+    if (!(await sub.control.waitForHandlers(sub.backlog.acquire(sub.abort.signal)))) {
+      return // Drain timed out while waiting: leave pending
+    }
+    if (!sub.control.isActive) {
+      sub.backlog.release()
+      return // Closing: don't start new work, leave pending for reclaim
+    }
+    sub.acks.track(id)
+
+    sub.ordering
+      .run(sub.orderingKey(envelope), async () => {
+        const acquired = await sub.limiter.acquire(sub.abort.signal)
+        sub.backlog.release()
+        if (!acquired) {
+          return // Drain timed out while waiting for a slot: leave pending
+        }
+
+        try {
+          const ack = await this.processMessage(sub, delivery).catch((error) => {
+            console.error(`[InMemoryConsumer] Failed to settle ${id}:`, error)
+            return false
+          })
+
+          const ready = sub.acks.settle(id, ack)
+
+          // Aborted on shutdown: stop waiting for earlier entries, ACK whatever has completed
+          if (sub.abort.signal.aborted) {
+            ready.push(...sub.acks.flush())
+          }
+          this.ack(sub, ready)
+        } finally {
+          sub.limiter.release()
+        }
+      })
+      .catch((error) => console.error(`[InMemoryConsumer] ACK error:`, error))
+  }
+
+  private ack<T>(sub: SubscriptionState<T>, ids: string[]): void {
+    for (const id of ids) {
+      this.broker.ack(sub.topic, sub.consumerGroup, id)
+    }
+  }
+
+  /**
+   * Claim entries pending longer than claimMinIdleMs and process them again
+   */
+  private async reclaimPending<T>(sub: SubscriptionState<T>): Promise<void> {
+    const { topic, consumerGroup, consumerName, claimMinIdleMs, maxRetries } = sub
+    const deliveries = this.broker.claimIdle(
+      topic,
+      consumerGroup,
+      consumerName,
+      claimMinIdleMs,
+      sub.batchSize
+    ) as InMemoryDelivery<T>[]
+
+    for (const delivery of deliveries) {
+      // Still being handled (or waiting for an earlier ACK) in this consumer
+      if (sub.acks.has(delivery.entry.id)) {
+        continue
+      }
+
+      if (delivery.deliveryCount > maxRetries) {
+        this.sendToDLQ(
+          sub,
+          delivery,
+          new Error(`Exceeded max deliveries (${delivery.deliveryCount}/${maxRetries})`)
+        )
+        this.broker.ack(topic, consumerGroup, delivery.entry.id)
+        continue
+      }
+
+      await this.dispatch(sub, delivery)
+    }
+  }
+
+  /**
+   * Run the handler for one entry, then re-schedule or dead-letter it if needed
+   * @returns true to ACK the entry, false to leave it pending for reclaim
+   */
+  private async processMessage<T>(
+    sub: SubscriptionState<T>,
+    delivery: InMemoryDelivery<T>
+  ): Promise<boolean> {
+    const { topic, consumerGroup, handler, maxRetries } = sub
+    const { entry, deliveryCount } = delivery
+
+    try {
+      sub.control.received()
+      const disposition = await handler(entry.envelope, {
+        messageId: entry.id,
+        deliveryCount,
+        signal: sub.abort.signal,
+      })
+
+      if (disposition?.action === 'dlq') {
+        this.sendToDLQ(sub, delivery, disposition.error)
+      } else if (disposition?.action === 'retry') {
+        const envelope: MessageEnvelope<T> = { ...entry.envelope, attempts: disposition.attempts }
+        this.broker.schedule(topic, envelope, Date.now() + disposition.delayMs, {
+          targetGroup: consumerGroup,
+        })
+        sub.control.record('processed')
+      } else {
+        sub.control.record('processed')
+      }
+
+      return true
+    } catch (error) {
+      // Aborted on shutdown: leave pending for reclaim
+      if (sub.abort.signal.aborted) {
+        return false
+      }
+
+      console.error(`[InMemoryConsumer] Handler error:`, error)
+
+      if (deliveryCount >= maxRetries) {
+        this.sendToDLQ(sub, delivery, error as Error)
+        return true
+      }
+
+      // If not max retries, entry stays pending and will be reclaimed
+      sub.control.record('failed')
+      return false
+    }
+  }
+
+  /**
+   * Fails once the broker is closed
+   */
+  async ping(): Promise<void> {
+    if (this.broker.isClosed) {
+      throw new Error('In-memory broker is closed')
+    }
+  }
+
+  /**
+   * Stop every subscription (see drainSubscription)
+   */
+  async close(options: ConsumerCloseOptions = {}): Promise<void> {
+    await Promise.all([...this.subscriptions].map((sub) => sub.control.stop(options)))
+  }
+
+  /**
+   * Stop fetching, wait up to `timeoutMs` for in-flight handlers, then abort the rest
+   * (their entries stay pending for reclaim) and resolve once the loop has exited
+   */
+  private async drainSubscription<T>(
+    sub: SubscriptionState<T>,
+    options: ConsumerCloseOptions
+  ): Promise<void> {
+    const { timeoutMs = InMemory.DEFAULTS.CLOSE_TIMEOUT_MS } = options
+
+    // Release a blocked read right away
+    sub.stop.abort()
+
+    const drained = await settlesWithin(
+      sub.loop.then(() => sub.backlog.onIdle()).then(() => sub.limiter.onIdle()),
+      timeoutMs
+    )
+
+    if (!drained) {
+      console.warn(
+        `[InMemoryConsumer] In-flight handlers on ${sub.topic} still running after ${timeoutMs}ms, aborting (unfinished entries left pending)`
+      )
+      sub.abort.abort()
+      await sub.loop
+
+      // Completed entries waiting for an earlier (aborted) one would otherwise be redelivered
+      this.ack(sub, sub.acks.flush())
+    }
+
+    this.subscriptions.delete(sub)
+  }
+
+  private sendToDLQ<T>(sub: SubscriptionState<T>, delivery: InMemoryDelivery<T>, error: Error): void {
+    sub.control.record('deadLettered')
+    this.broker.dlq.add(delivery.entry.envelope, {
+      topic: sub.topic,
+      consumerGroup: sub.consumerGroup,
+      consumerName: sub.consumerName,
+      messageId: delivery.entry.id,
+      deliveryCount: delivery.deliveryCount,
+      failedAt: new Date().toISOString(),
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    })
+  }
+}
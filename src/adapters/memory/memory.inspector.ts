@@ -0,0 +1,30 @@
+/**
+ * In-memory implementation of BrokerInspector
+ */
+
+import type { BrokerInspector, StoredMessage, TopicInfo } from '../../core/broker-inspector.port'
+import { InMemoryBroker } from './memory.broker'
+import { InMemory } from './memory.constants'
+
+export class InMemoryInspector implements BrokerInspector {
+  constructor(private readonly broker: InMemoryBroker) {}
+
+  async getTopicInfo(topic: string): Promise<TopicInfo> {
+    return {
+      topic,
+      length: this.broker.getEntries(topic).length,
+      groups: this.broker.getGroups(topic),
+    }
+  }
+
+  async getRecentMessages<T = unknown>(
+    topic: string,
+    count: number = InMemory.DEFAULTS.RECENT_MESSAGES
+  ): Promise<StoredMessage<T>[]> {
+    return this.broker
+      .getEntries(topic)
+      .slice(-count)
+      .reverse()
+      .map(({ id, envelope }) => ({ id, envelope: envelope as StoredMessage<T>['envelope'] }))
+  }
+}
@@ -3,12 +3,16 @@
  * 
  * Usage:
  * ```typescript
- * import { RedisStreamsBus, RedisStreamsConsumer, RedisDedupeStore } from 'elysia-messaging/redis-streams'
+ * import { RedisStreamsBus, RedisStreamsConsumer, RedisDedupeStore, RedisDeadLetterQueue } from 'elysia-messaging/redis-streams'
  * ```
  */
 
 export * from './redis-streams.bus'
 export * from './redis-streams.consumer'
 export * from './redis-dedupe.store'
+export * from './redis-dead-letter.queue'
+export * from './redis-schedule.store'
+export * from './redis-streams.scheduler'
+export * from './redis-streams.inspector'
 export * from './redis-streams.constants'
 
@@ -0,0 +1,172 @@
+/**
+ * Redis Streams implementation of DeadLetterQueue
+ * Dead-lettered messages live in a `dlq:`-prefixed stream
+ */
+
+import type { Redis } from 'ioredis'
+import type {
+  DeadLetterQueue,
+  DeadLetterEntry,
+  DeadLetterListOptions,
+} from '../../core/dead-letter-queue.port'
+import type { MessageEnvelope } from '../../core/message-envelope'
+import { REDIS_PREFIXES, RETRY_GROUP_FIELD, RedisStreams } from './redis-streams.constants'
+import { envelopeToFields, fieldsToEnvelope, fieldsToObject } from './redis-streams.serializer'
+
+/**
+ * Failure metadata written alongside the envelope
+ */
+export type DeadLetterFailure = Omit<DeadLetterEntry, 'id' | 'envelope'>
+
+/** Stream entry ID (`<ms>` or `<ms>-<seq>`) */
+const STREAM_ID_PATTERN = /^\d+(-\d+)?$/
+
+/**
+ * Re-publish a DLQ entry, then remove it (nothing is removed if XADD fails)
+ * KEYS[1] = DLQ stream, KEYS[2] = target stream, ARGV[1] = entry ID, ARGV[2..] = fields
+ */
+const REDRIVE_SCRIPT = `
+if #redis.call('XRANGE', KEYS[1], ARGV[1], ARGV[1]) == 0 then
+  return 0
+end
+redis.call('XADD', KEYS[2], '*', unpack(ARGV, 2))
+return redis.call('XDEL', KEYS[1], ARGV[1])
+`
+
+export class RedisDeadLetterQueue implements DeadLetterQueue {
+  private readonly streamKey: string
+
+  constructor(
+    private readonly redis: Redis,
+    dlqTopic: string = RedisStreams.DEFAULTS.DLQ_TOPIC
+  ) {
+    this.streamKey = `${REDIS_PREFIXES.DLQ}${dlqTopic}`
+  }
+
+  /**
+   * Add a failed message to the DLQ
+   * @returns DLQ entry ID
+   */
+  async add<T>(envelope: MessageEnvelope<T>, failure: DeadLetterFailure): Promise<string> {
+    const fields: Record<string, string> = {
+      ...envelopeToFields(envelope),
+      dlqTopic: failure.topic,
+      dlqSourceStream: `${REDIS_PREFIXES.STREAM}${failure.topic}`,
+      dlqConsumerGroup: failure.consumerGroup,
+      dlqMessageId: failure.messageId,
+      dlqDeliveryCount: failure.deliveryCount.toString(),
+      dlqFailedAt: failure.failedAt,
+      dlqError: failure.error.message,
+      ...(failure.consumerName && { dlqConsumerName: failure.consumerName }),
+      ...(failure.error.stack && { dlqErrorStack: failure.error.stack }),
+    }
+
+    const id = await this.redis.xadd(
+      this.streamKey,
+      RedisStreams.IDS.AUTO,
+      ...Object.entries(fields).flat()
+    )
+
+    console.warn(`[RedisDeadLetterQueue] Added ${envelope.eventId} to ${this.streamKey}`)
+
+    return id as string
+  }
+
+  async list<T = unknown>(options: DeadLetterListOptions = {}): Promise<DeadLetterEntry<T>[]> {
+    const { count = 100, topic, after } = options
+    const entries: DeadLetterEntry<T>[] = []
+    let start = after ? `(${after}` : '-'
+
+    while (entries.length < count) {
+      const page = await this.redis.xrange(this.streamKey, start, '+', 'COUNT', count)
+
+      for (const [id, fieldsArray] of page) {
+        const entry = this.parseEntry<T>(id, fieldsArray)
+        if (!topic || entry.topic === topic) {
+          entries.push(entry)
+          if (entries.length === count) break
+        }
+      }
+
+      // Stream exhausted or no filter dropping entries
+      if (page.length < count || !topic) break
+      start = `(${page[page.length - 1][0]}`
+    }
+
+    return entries
+  }
+
+  async get<T = unknown>(id: string): Promise<DeadLetterEntry<T> | undefined> {
+    if (!STREAM_ID_PATTERN.test(id)) {
+      return undefined
+    }
+
+    const [entry] = await this.redis.xrange(this.streamKey, id, id)
+    return entry ? this.parseEntry<T>(entry[0], entry[1]) : undefined
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!STREAM_ID_PATTERN.test(id)) {
+      return false
+    }
+
+    const deleted = await this.redis.xdel(this.streamKey, id)
+    return deleted > 0
+  }
+
+  async redrive<T = unknown>(id: string): Promise<MessageEnvelope<T> | undefined> {
+    const entry = await this.get<T>(id)
+    if (!entry) {
+      return undefined
+    }
+
+    const envelope: MessageEnvelope<T> = { ...entry.envelope, attempts: 0 }
+    const targetStream = `${REDIS_PREFIXES.STREAM}${entry.topic}`
+
+    // Only the consumer group that gave up should see the message again
+    const fields = { ...envelopeToFields(envelope), [RETRY_GROUP_FIELD]: entry.consumerGroup }
+
+    // Re-publish and remove from DLQ atomically (a failed XADD throws and keeps the entry)
+    const redriven = await this.redis.eval(
+      REDRIVE_SCRIPT,
+      2,
+      this.streamKey,
+      targetStream,
+      id,
+      ...Object.entries(fields).flat()
+    )
+    if (!redriven) {
+      return undefined // Redriven or deleted concurrently
+    }
+
+    console.log(`[RedisDeadLetterQueue] Redrove ${envelope.eventId} to ${targetStream}`)
+
+    return envelope
+  }
+
+  async size(): Promise<number> {
+    return this.redis.xlen(this.streamKey)
+  }
+
+  /**
+   * Parse a DLQ stream entry
+   */
+  private parseEntry<T>(id: string, fieldsArray: string[]): DeadLetterEntry<T> {
+    const fields = fieldsToObject(fieldsArray)
+
+    return {
+      id,
+      envelope: fieldsToEnvelope<T>(fields),
+      topic: fields.dlqTopic,
+      consumerGroup: fields.dlqConsumerGroup,
+      consumerName: fields.dlqConsumerName,
+      messageId: fields.dlqMessageId,
+      deliveryCount: parseInt(fields.dlqDeliveryCount || '0', 10),
+      failedAt: fields.dlqFailedAt,
+      error: {
+        message: fields.dlqError,
+        stack: fields.dlqErrorStack,
+      },
+    }
+  }
+}
@@ -1,22 +1,53 @@
 /**
  * Redis implementation of DedupeStore
- * Uses Redis SET with TTL for idempotency tracking
+ * Uses Redis SET with TTL for idempotency tracking, and SET NX PX for processing leases
  */
 
 import type { Redis } from 'ioredis'
-import type { DedupeStore } from '../../core/dedupe-store.port'
+import type { DedupeAcquireResult, DedupeStore } from '../../core/dedupe-store.port'
 import { REDIS_PREFIXES, RedisStreams } from './redis-streams.constants'
 
+/** Value of a key while an event is being processed (processed events hold '1') */
+const PROCESSING = 'processing'
+
+/**
+ * Take a processing lease, or report who has the event
+ * KEYS[1] = dedupe key, ARGV[1] = lease (ms)
+ */
+const TRY_ACQUIRE_SCRIPT = `
+if redis.call('SET', KEYS[1], '${PROCESSING}', 'NX', 'PX', ARGV[1]) then
+  return 'acquired'
+end
+if redis.call('GET', KEYS[1]) == '${PROCESSING}' then
+  return 'in-progress'
+end
+return 'completed'
+`
+
+/**
+ * Delete the key only while it still holds a lease (never a completed marker)
+ * KEYS[1] = dedupe key
+ */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == '${PROCESSING}' then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
 export class RedisDedupeStore implements DedupeStore {
   constructor(private readonly redis: Redis) {}
 
   async has(eventId: string): Promise<boolean> {
     const key = this.getKey(eventId)
-    const exists = await this.redis.exists(key)
-    return exists === 1
+    const value = await this.redis.get(key)
+    return value !== null && value !== PROCESSING
   }
 
-  async mark(eventId: string, ttlSeconds = RedisStreams.DEFAULTS.DEDUPE_TTL_SECONDS): Promise<void> {
+  async mark(
+    eventId: string,
+    ttlSeconds: number = RedisStreams.DEFAULTS.DEDUPE_TTL_SECONDS
+  ): Promise<void> {
     const key = this.getKey(eventId)
     await this.redis.setex(key, ttlSeconds, '1')
     console.log(`[RedisDedupeStore] Marked ${eventId} as processed (TTL: ${ttlSeconds}s)`)
@@ -28,6 +59,20 @@ export class RedisDedupeStore implements DedupeStore {
     console.log(`[RedisDedupeStore] Removed ${eventId}`)
   }
 
+  async tryAcquire(eventId: string, leaseMs: number): Promise<DedupeAcquireResult> {
+    const key = this.getKey(eventId)
+    return (await this.redis.eval(TRY_ACQUIRE_SCRIPT, 1, key, leaseMs)) as DedupeAcquireResult
+  }
+
+  async complete(eventId: string, ttlSeconds?: number): Promise<void> {
+    await this.mark(eventId, ttlSeconds)
+  }
+
+  async release(eventId: string): Promise<void> {
+    const key = this.getKey(eventId)
+    await this.redis.eval(RELEASE_SCRIPT, 1, key)
+  }
+
   async close(): Promise<void> {
     // Redis connection is managed externally
     console.log('[RedisDedupeStore] Closing...')
@@ -37,4 +82,3 @@ export class RedisDedupeStore implements DedupeStore {
     return `${REDIS_PREFIXES.DEDUPE}${eventId}`
   }
 }
-
@@ -0,0 +1,90 @@
+/**
+ * Redis implementation of ScheduleStore
+ * One SET NX PX lock per schedule tick, last ticks kept in a hash
+ */
+
+import type { Redis } from 'ioredis'
+import type { ScheduleStore } from '../../core/schedule-store.port'
+import { REDIS_PREFIXES } from './redis-streams.constants'
+
+/**
+ * Claim a tick and record it as the last one (never moving backwards)
+ * KEYS[1] = tick lock, KEYS[2] = last tick hash
+ * ARGV[1] = schedule name, ARGV[2] = tick (ms), ARGV[3] = lock TTL (ms)
+ */
+const CLAIM_TICK_SCRIPT = `
+if not redis.call('SET', KEYS[1], '1', 'NX', 'PX', ARGV[3]) then
+  return 0
+end
+local last = tonumber(redis.call('HGET', KEYS[2], ARGV[1]))
+if not last or last < tonumber(ARGV[2]) then
+  redis.call('HSET', KEYS[2], ARGV[1], ARGV[2])
+end
+return 1
+`
+
+/**
+ * Drop a tick lock and restore the last tick if it still points at that tick
+ * KEYS[1] = tick lock, KEYS[2] = last tick hash
+ * ARGV[1] = schedule name, ARGV[2] = tick (ms), ARGV[3] = last tick to restore ('' = none)
+ */
+const RELEASE_TICK_SCRIPT = `
+redis.call('DEL', KEYS[1])
+if redis.call('HGET', KEYS[2], ARGV[1]) == ARGV[2] then
+  if ARGV[3] == '' then
+    redis.call('HDEL', KEYS[2], ARGV[1])
+  else
+    redis.call('HSET', KEYS[2], ARGV[1], ARGV[3])
+  end
+end
+return 1
+`
+
+export class RedisScheduleStore implements ScheduleStore {
+  private readonly lastTickKey = `${REDIS_PREFIXES.SCHEDULE}last`
+
+  constructor(private readonly redis: Redis) {}
+
+  async claim(name: string, tick: number, ttlMs: number): Promise<boolean> {
+    const claimed = await this.redis.eval(
+      CLAIM_TICK_SCRIPT,
+      2,
+      this.lockKey(name, tick),
+      this.lastTickKey,
+      name,
+      tick,
+      ttlMs
+    )
+    return claimed === 1
+  }
+
+  async release(name: string, tick: number, lastTick?: number): Promise<void> {
+    await this.redis.eval(
+      RELEASE_TICK_SCRIPT,
+      2,
+      this.lockKey(name, tick),
+      this.lastTickKey,
+      name,
+      tick,
+      lastTick ?? ''
+    )
+  }
+
+  async getLastTick(name: string): Promise<number | undefined> {
+    const value = await this.redis.hget(this.lastTickKey, name)
+    return value !== null ? Number(value) : undefined
+  }
+
+  async clear(name: string): Promise<void> {
+    await this.redis.hdel(this.lastTickKey, name)
+  }
+
+  async close(): Promise<void> {
+    // Redis connection is managed externally
+    console.log('[RedisScheduleStore] Closing...')
+  }
+
+  private lockKey(name: string, tick: number): string {
+    return `${REDIS_PREFIXES.SCHEDULE}lock:${name}:${tick}`
+  }
+}
@@ -3,28 +3,43 @@
  */
 
 import type { Redis } from 'ioredis'
-import type { MessageBus } from '../../core/message-bus.port'
+import type { MessageBus, PublishOptions } from '../../core/message-bus.port'
+import { resolveDeliverAt } from '../../core/message-bus.port'
 import type { MessageEnvelope } from '../../core/message-envelope'
 import type { TopicName } from '../../core/topics'
 import { REDIS_PREFIXES, RedisStreams } from './redis-streams.constants'
+import { envelopeToFields } from './redis-streams.serializer'
+import { RedisStreamsScheduler } from './redis-streams.scheduler'
 
 export class RedisStreamsBus implements MessageBus {
-  constructor(private readonly redis: Redis) {}
+  /**
+   * Scheduler holding delayed messages (started on the first delayed publish, so due ones
+   * are moved into their stream even in publisher-only processes; stopped by close())
+   */
+  readonly scheduler: RedisStreamsScheduler
 
-  async publish<T>(topic: TopicName | string, envelope: MessageEnvelope<T>): Promise<void> {
+  constructor(private readonly redis: Redis) {
+    this.scheduler = new RedisStreamsScheduler(redis)
+  }
+
+  async publish<T>(
+    topic: TopicName | string,
+    envelope: MessageEnvelope<T>,
+    options?: PublishOptions
+  ): Promise<void> {
     const streamKey = `${REDIS_PREFIXES.STREAM}${topic}`
 
     // Serialize envelope to Redis fields
-    const fields = {
-      eventId: envelope.eventId,
-      type: envelope.type,
-      jobId: envelope.jobId,
-      occurredAt: envelope.occurredAt,
-      version: envelope.version.toString(),
-      attempts: envelope.attempts.toString(),
-      payload: JSON.stringify(envelope.payload),
-      ...(envelope.correlationId && { correlationId: envelope.correlationId }),
-      ...(envelope.causationId && { causationId: envelope.causationId }),
+    const fields = envelopeToFields(envelope)
+
+    // Delayed delivery: hold in the scheduler (cancellable by eventId)
+    const deliverAt = resolveDeliverAt(options)
+    if (deliverAt !== undefined) {
+      await this.scheduler.schedule(envelope.eventId, streamKey, fields, deliverAt)
+      this.scheduler.start()
+      const due = new Date(deliverAt).toISOString()
+      console.log(`[RedisStreamsBus] Scheduled ${envelope.eventId} for ${streamKey} at ${due}`)
+      return
     }
 
     // Publish to Redis Stream with XADD
@@ -37,9 +52,56 @@ export class RedisStreamsBus implements MessageBus {
     console.log(`[RedisStreamsBus] Published to ${streamKey}:`, envelope.eventId)
   }
 
+  /**
+   * Publish several messages atomically (XADDs in one MULTI/EXEC round trip)
+   */
+  async publishBatch<T>(
+    topic: TopicName | string,
+    envelopes: MessageEnvelope<T>[]
+  ): Promise<Array<Error | undefined>> {
+    const streamKey = `${REDIS_PREFIXES.STREAM}${topic}`
+    const multi = this.redis.multi()
+
+    for (const envelope of envelopes) {
+      const fields = envelopeToFields(envelope)
+      multi.xadd(streamKey, RedisStreams.IDS.AUTO, ...Object.entries(fields).flat())
+    }
+
+    let results: Array<[Error | null, unknown]> | null
+    try {
+      results = await multi.exec()
+    } catch (error) {
+      // Transaction rejected as a whole (e.g. connection lost): nothing was published
+      return envelopes.map(() => error as Error)
+    }
+
+    if (!results) {
+      const aborted = new Error(`Batch transaction on ${streamKey} was aborted`)
+      return envelopes.map(() => aborted)
+    }
+
+    console.log(`[RedisStreamsBus] Published ${envelopes.length} message(s) to ${streamKey}`)
+
+    return results.map(([error]) => error ?? undefined)
+  }
+
+  /**
+   * Check the Redis connection (PING)
+   */
+  async ping(): Promise<void> {
+    await this.redis.ping()
+  }
+
+  /**
+   * Cancel a delayed message before it is delivered
+   */
+  async cancelScheduled(eventId: string): Promise<boolean> {
+    return this.scheduler.cancel(eventId)
+  }
+
   async close(): Promise<void> {
     // Redis connection is managed externally, so we don't close it here
     console.log('[RedisStreamsBus] Closing...')
+    await this.scheduler.stop()
   }
 }
-
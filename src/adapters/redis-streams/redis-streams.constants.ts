@@ -24,6 +24,8 @@ export const RedisStreams = {
     AUTO: '*',
     /** Pending messages (not acknowledged yet) */
     PENDING: '>',
+    /** Cursor that starts (and ends) an XAUTOCLAIM scan */
+    CLAIM_START: '0-0',
   },
 
   /** Default configuration */
@@ -34,8 +36,22 @@ export const RedisStreams = {
     BLOCK_MS: 5000,
     /** Number of messages to read per batch */
     BATCH_SIZE: 10,
+    /** Handlers running at the same time per subscription */
+    CONCURRENCY: 1,
+    /** Messages returned by the inspector's getRecentMessages() */
+    RECENT_MESSAGES: 20,
+    /** How long close() waits for in-flight handlers (ms) */
+    CLOSE_TIMEOUT_MS: 30000,
+    /** Minimum idle time before a pending message is reclaimed (ms) */
+    CLAIM_MIN_IDLE_MS: 60000,
+    /** Interval between reclaim cycles (ms) */
+    CLAIM_INTERVAL_MS: 30000,
+    /** Interval between scheduler polls started with RedisStreamsScheduler.start() (ms) */
+    SCHEDULER_POLL_MS: 1000,
     /** Deduplication TTL (24 hours) */
     DEDUPE_TTL_SECONDS: 86400,
+    /** Dead letter topic when none is configured */
+    DLQ_TOPIC: 'default.dlq',
   },
 } as const
 
@@ -46,5 +62,12 @@ export const REDIS_PREFIXES = {
   STREAM: 'stream:',
   DEDUPE: 'dedupe:',
   DLQ: 'dlq:',
+  SCHEDULED: 'scheduled:',
+  SCHEDULE: 'schedule:',
 } as const
 
+/**
+ * Extra stream field marking a broker-side retry meant for one consumer group only
+ */
+export const RETRY_GROUP_FIELD = 'retryGroup'
+
@@ -3,39 +3,117 @@
  */
 
 import type { Redis } from 'ioredis'
-import type { MessageConsumer, MessageHandler, ConsumerOptions } from '../../core/message-consumer.port'
+import type {
+  MessageConsumer,
+  MessageHandler,
+  ConsumerOptions,
+  ConsumerCloseOptions,
+  OrderingKey,
+  Subscription,
+} from '../../core/message-consumer.port'
 import type { MessageEnvelope } from '../../core/message-envelope'
 import type { TopicName } from '../../core/topics'
-import { REDIS_PREFIXES, RedisStreams } from './redis-streams.constants'
+import {
+  AckSequencer,
+  ConcurrencyLimiter,
+  KeyedSerializer,
+  resolveOrderingKey,
+  settlesWithin,
+} from '../../core/concurrency'
+import { SubscriptionControl } from '../../core/subscription'
+import { REDIS_PREFIXES, RETRY_GROUP_FIELD, RedisStreams } from './redis-streams.constants'
+import { envelopeToFields, fieldsToEnvelope, fieldsToObject } from './redis-streams.serializer'
+import { RedisDeadLetterQueue } from './redis-dead-letter.queue'
+import { RedisStreamsScheduler } from './redis-streams.scheduler'
+
+/**
+ * Where a failed message came from (for DLQ metadata)
+ */
+interface DeliverySource {
+  topic: string
+  consumerGroup: string
+  consumerName: string
+  messageId: string
+  deliveryCount: number
+}
+
+/**
+ * Resolved settings of a single subscribe() call
+ */
+interface SubscriptionState<T> {
+  topic: string
+  streamKey: string
+  consumerGroup: string
+  consumerName: string
+  handler: MessageHandler<T>
+  blockMs: number
+  batchSize: number
+  maxRetries: number
+  claimMinIdleMs: number
+  claimIntervalMs: number
+  /** Bounds in-flight handlers */
+  limiter: ConcurrencyLimiter
+  /** Bounds messages fetched but still waiting for their ordering key or a slot */
+  backlog: ConcurrencyLimiter
+  /** Releases ACKs in delivery order */
+  acks: AckSequencer
+  /** Derives the ordering key of a message */
+  orderingKey: OrderingKey<T>
+  /** Serializes messages sharing an ordering key */
+  ordering: KeyedSerializer
+  /** Dedicated connection for the blocking XREADGROUP (disconnected on close) */
+  reader: Redis
+  /** Aborted when the drain times out (signal passed to handlers) */
+  abort: AbortController
+  /** Settles when the consume loop has exited */
+  loop: Promise<void>
+  /** Lifecycle and stats (returned by subscribe()) */
+  control: SubscriptionControl
+}
 
 export class RedisStreamsConsumer implements MessageConsumer {
-  private isRunning = false
   private dlqTopic: string
+  private readonly subscriptions = new Set<SubscriptionState<any>>()
+
+  /** Dead letter queue for this consumer (inspect, delete, redrive) */
+  readonly dlq: RedisDeadLetterQueue
+
+  /** Scheduler for broker-side (delayed) retries, polled while any subscription runs */
+  private readonly scheduler: RedisStreamsScheduler
 
   constructor(
     private readonly redis: Redis,
     dlqTopic?: string
   ) {
-    this.dlqTopic = dlqTopic || 'default.dlq'
+    this.dlqTopic = dlqTopic || RedisStreams.DEFAULTS.DLQ_TOPIC
+    this.dlq = new RedisDeadLetterQueue(redis, this.dlqTopic)
+    this.scheduler = new RedisStreamsScheduler(redis)
   }
 
   async subscribe<T>(
     topic: TopicName | string,
     handler: MessageHandler<T>,
     options: ConsumerOptions
-  ): Promise<void> {
+  ): Promise<Subscription> {
     const streamKey = `${REDIS_PREFIXES.STREAM}${topic}`
-    const { 
-      consumerGroup, 
-      consumerName, 
+    const {
+      consumerGroup,
+      consumerName,
       maxRetries = RedisStreams.DEFAULTS.MAX_RETRIES,
       blockMs = RedisStreams.DEFAULTS.BLOCK_MS,
+      concurrency = RedisStreams.DEFAULTS.CONCURRENCY,
+      batchSize = RedisStreams.DEFAULTS.BATCH_SIZE,
+      claimMinIdleMs = RedisStreams.DEFAULTS.CLAIM_MIN_IDLE_MS,
+      claimIntervalMs = RedisStreams.DEFAULTS.CLAIM_INTERVAL_MS,
       startId = '>'
     } = options
 
     console.log(`[RedisStreamsConsumer] Subscribing to ${streamKey}`)
     console.log(`  Consumer Group: ${consumerGroup}`)
     console.log(`  Consumer Name: ${consumerName}`)
+    console.log(`  Concurrency: ${concurrency}`)
+
+    const limiter = new ConcurrencyLimiter(concurrency)
 
     // Create consumer group if it doesn't exist
     try {
@@ -48,124 +126,440 @@ export class RedisStreamsConsumer implements MessageConsumer {
       // Group already exists, that's fine
     }
 
+    const control = new SubscriptionControl({ topic, consumerGroup, consumerName }, limiter, (options) =>
+      this.drainSubscription(sub, options)
+    )
+
     // Start consuming loop in background
-    this.isRunning = true
-    this.consumeLoop(streamKey, consumerGroup, consumerName, handler, blockMs, maxRetries)
+    const sub: SubscriptionState<T> = {
+      topic,
+      streamKey,
+      consumerGroup,
+      consumerName,
+      handler,
+      blockMs,
+      batchSize,
+      maxRetries,
+      claimMinIdleMs,
+      claimIntervalMs,
+      limiter,
+      backlog: new ConcurrencyLimiter(batchSize),
+      acks: new AckSequencer(),
+      orderingKey: resolveOrderingKey(options.orderingKey),
+      ordering: new KeyedSerializer(),
+      reader: this.redis.duplicate(),
+      abort: new AbortController(),
+      loop: Promise.resolve(),
+      control,
+    }
+    sub.loop = this.consumeLoop(sub)
+    this.subscriptions.add(sub)
+
+    // Move due broker-side retries back into their streams on time, even while XREADGROUP blocks
+    this.scheduler.start()
+
+    return control
   }
 
   /**
    * Main consumer loop
    */
-  private async consumeLoop<T>(
-    streamKey: string,
-    consumerGroup: string,
-    consumerName: string,
-    handler: MessageHandler<T>,
-    blockMs: number,
-    maxRetries: number
-  ): Promise<void> {
-    while (this.isRunning) {
+  private async consumeLoop<T>(sub: SubscriptionState<T>): Promise<void> {
+    const { streamKey, consumerGroup, consumerName, blockMs } = sub
+    let lastClaimAt = 0
+
+    while (sub.control.isActive) {
       try {
+        // Paused: fetch nothing until resumed or stopped
+        await sub.control.waitWhilePaused()
+        if (!sub.control.isActive) break
+
+        // Periodically pick up entries abandoned in the PEL (failed or crashed workers)
+        if (Date.now() - lastClaimAt >= sub.claimIntervalMs) {
+          lastClaimAt = Date.now()
+          await this.reclaimPending(sub)
+        }
+
         // Read from stream with XREADGROUP
-        const results: any = await this.redis.xreadgroup(
+        const results: any = await sub.reader.xreadgroup(
           'GROUP',
           consumerGroup,
           consumerName,
           'COUNT',
-          RedisStreams.DEFAULTS.BATCH_SIZE.toString(),
+          sub.batchSize.toString(),
           'BLOCK',
           blockMs.toString(),
           'STREAMS',
           streamKey,
           '>'
         )
+        sub.control.polled()
 
         if (!results || results.length === 0) {
           continue // No messages, loop again
         }
 
-        // Process each message
+        // Dispatch each message (first delivery); stops early on shutdown,
+        // leaving the rest of the batch pending for reclaim
         for (const streamData of results) {
           const [stream, messages] = streamData
-          
+
           for (const messageData of messages) {
+            if (!sub.control.isActive) break
             const [messageId, fieldsArray] = messageData
-            
-            try {
-              // Parse message
-              const fieldsObj = this.fieldsToObject(fieldsArray as string[])
-              const envelope = this.parseMessage<T>(fieldsObj)
-
-              // Call handler
-              await handler(envelope)
-
-              // ACK message
-              await this.redis.xack(streamKey, consumerGroup, messageId)
-            } catch (error) {
-              console.error(`[RedisStreamsConsumer] Handler error:`, error)
-              
-              // Check retry count
-              const fieldsObj = this.fieldsToObject(fieldsArray as string[])
-              const attempts = parseInt(fieldsObj.attempts || '0', 10)
-              
-              if (attempts >= maxRetries) {
-                // Send to DLQ
-                const envelope = this.parseMessage<T>(fieldsObj)
-                await this.sendToDLQ(envelope, error as Error)
-                
-                // ACK to remove from pending
-                await this.redis.xack(streamKey, consumerGroup, messageId)
-              }
-              // If not max retries, message stays in pending and will be redelivered
-            }
+            await this.dispatch(sub, messageId, fieldsArray, 1)
           }
         }
       } catch (error) {
+        // Reader disconnected by close()
+        if (!sub.control.isActive) break
+
         console.error(`[RedisStreamsConsumer] Consumer loop error:`, error)
+        sub.control.loopFailed(error)
         await new Promise(resolve => setTimeout(resolve, 1000)) // Wait before retry
       }
     }
   }
 
   /**
-   * Convert Redis fields array to object
+   * Queue a message behind earlier messages with the same ordering key; it takes a
+   * concurrency slot only once its key is free (returns once the message is queued,
+   * waiting while `batchSize` messages are already queued)
+   */
+  private async dispatch<T>(
+    sub: SubscriptionState<T>,
+    messageId: string,
+    fieldsArray: string[],
+    deliveryCount: number
+  ): Promise<void> {
+    if (!(await sub.control.waitForHandlers(sub.backlog.acquire(sub.abort.signal)))) {
+      return // Drain timed out while waiting: leave pending
+    }
+    if (!sub.control.isActive) {
+      sub.backlog.release()
+      return // Closing: don't start new work, leave pending for reclaim
+    }
+    sub.acks.track(messageId)
+
+    sub.ordering
+      .run(this.getOrderingKey(sub, fieldsArray), async () => {
+        const acquired = await sub.limiter.acquire(sub.abort.signal)
+        sub.backlog.release()
+        if (!acquired) {
+          return // Drain timed out while waiting for a slot: leave pending
+        }
+
+        try {
+          const ack = await this.processMessage(sub, messageId, fieldsArray, deliveryCount).catch(
+            (error) => {
+              console.error(`[RedisStreamsConsumer] Failed to settle ${messageId}:`, error)
+              return false
+            }
+          )
+          await this.settle(sub, messageId, ack).catch((error) =>
+            console.error(`[RedisStreamsConsumer] ACK error:`, error)
+          )
+        } finally {
+          sub.limiter.release()
+        }
+      })
+      .catch((error) => console.error(`[RedisStreamsConsumer] Dispatch error:`, error))
+  }
+
+  /**
+   * Ordering key of a raw entry (unparseable entries are not ordered)
    */
-  private fieldsToObject(fields: string[]): Record<string, string> {
-    const obj: Record<string, string> = {}
-    for (let i = 0; i < fields.length; i += 2) {
-      obj[fields[i]] = fields[i + 1]
+  private getOrderingKey<T>(sub: SubscriptionState<T>, fieldsArray: string[]): string | undefined {
+    try {
+      return sub.orderingKey(fieldsToEnvelope<T>(fieldsToObject(fieldsArray)))
+    } catch {
+      return undefined
     }
-    return obj
   }
 
-  async close(): Promise<void> {
-    console.log('[RedisStreamsConsumer] Stopping...')
-    this.isRunning = false
+  /**
+   * ACK every message settled so far, in delivery order
+   */
+  private async settle<T>(sub: SubscriptionState<T>, messageId: string, ack: boolean): Promise<void> {
+    const ready = sub.acks.settle(messageId, ack)
+
+    // Aborted on shutdown: stop waiting for earlier messages, ACK whatever has completed
+    if (sub.abort.signal.aborted) {
+      ready.push(...sub.acks.flush())
+    }
+    await this.ack(sub, ready)
+  }
+
+  private async ack<T>(sub: SubscriptionState<T>, messageIds: string[]): Promise<void> {
+    if (messageIds.length > 0) {
+      await this.redis.xack(sub.streamKey, sub.consumerGroup, ...messageIds)
+    }
   }
 
   /**
-   * Helper to parse Redis Stream message to MessageEnvelope
+   * Claim pending entries idle for longer than claimMinIdleMs (XAUTOCLAIM)
+   * and process them with their real delivery count
    */
-  private parseMessage<T>(fields: Record<string, string>): MessageEnvelope<T> {
+  private async reclaimPending<T>(sub: SubscriptionState<T>): Promise<void> {
+    const { streamKey, consumerGroup, consumerName, claimMinIdleMs, maxRetries } = sub
+    let cursor: string = RedisStreams.IDS.CLAIM_START
+
+    do {
+      const [nextCursor, entries] = (await this.redis.xautoclaim(
+        streamKey,
+        consumerGroup,
+        consumerName,
+        claimMinIdleMs,
+        cursor,
+        'COUNT',
+        sub.batchSize
+      )) as [string, Array<[string, string[] | null] | null>]
+
+      cursor = nextCursor
+      const claimed = entries.filter((entry): entry is [string, string[] | null] => !!entry)
+
+      if (claimed.length === 0) {
+        continue
+      }
+
+      const deliveryCounts = await this.getDeliveryCounts(
+        sub,
+        claimed.map(([messageId]) => messageId)
+      )
+
+      for (const [messageId, fieldsArray] of claimed) {
+        // Still being handled (or waiting for an earlier ACK) in this process
+        if (sub.acks.has(messageId)) {
+          continue
+        }
+
+        // Entry was trimmed/deleted from the stream but still pending
+        if (!fieldsArray) {
+          await this.redis.xack(streamKey, consumerGroup, messageId)
+          continue
+        }
+
+        const deliveryCount = deliveryCounts.get(messageId) ?? 1
+
+        if (deliveryCount > maxRetries) {
+          console.warn(
+            `[RedisStreamsConsumer] ${messageId} exceeded ${maxRetries} deliveries, sending to DLQ`
+          )
+
+          const envelope = fieldsToEnvelope<T>(fieldsToObject(fieldsArray))
+          await this.sendToDLQ(
+            envelope,
+            new Error(`Exceeded max deliveries (${deliveryCount}/${maxRetries})`),
+            this.getSource(sub, messageId, deliveryCount)
+          )
+          await this.redis.xack(streamKey, consumerGroup, messageId)
+          sub.control.record('deadLettered')
+          continue
+        }
+
+        console.log(
+          `[RedisStreamsConsumer] Reclaimed ${messageId} from ${streamKey} (delivery ${deliveryCount})`
+        )
+        await this.dispatch(sub, messageId, fieldsArray, deliveryCount)
+      }
+    } while (sub.control.isActive && cursor !== RedisStreams.IDS.CLAIM_START)
+  }
+
+  /**
+   * Look up delivery counts of pending entries (pipelined XPENDING per ID)
+   */
+  private async getDeliveryCounts<T>(
+    sub: SubscriptionState<T>,
+    messageIds: string[]
+  ): Promise<Map<string, number>> {
+    const pipeline = this.redis.pipeline()
+    for (const messageId of messageIds) {
+      pipeline.xpending(sub.streamKey, sub.consumerGroup, messageId, messageId, 1)
+    }
+
+    const results = (await pipeline.exec()) ?? []
+    const deliveryCounts = new Map<string, number>()
+
+    for (const [error, pending] of results) {
+      const [entry] = (pending ?? []) as Array<[string, string, number, number]>
+      if (!error && entry) {
+        deliveryCounts.set(entry[0], entry[3])
+      }
+    }
+
+    return deliveryCounts
+  }
+
+  /**
+   * Run the handler for one stream entry, then dead-letter or re-schedule it if needed
+   * @returns true to ACK the entry, false to leave it pending for reclaim
+   */
+  private async processMessage<T>(
+    sub: SubscriptionState<T>,
+    messageId: string,
+    fieldsArray: string[],
+    deliveryCount: number
+  ): Promise<boolean> {
+    const { consumerGroup, handler, maxRetries } = sub
+
+    try {
+      // Parse message
+      const fields = fieldsToObject(fieldsArray)
+      const envelope = fieldsToEnvelope<T>(fields)
+
+      // Broker-side retry re-scheduled by another consumer group: not ours
+      if (fields[RETRY_GROUP_FIELD] && fields[RETRY_GROUP_FIELD] !== consumerGroup) {
+        return true
+      }
+
+      // Call handler with the real delivery count
+      sub.control.received()
+      const disposition = await handler(envelope, {
+        messageId,
+        deliveryCount,
+        signal: sub.abort.signal,
+      })
+
+      if (disposition?.action === 'dlq') {
+        await this.sendToDLQ(envelope, disposition.error, this.getSource(sub, messageId, deliveryCount))
+        sub.control.record('deadLettered')
+      } else if (disposition?.action === 'retry') {
+        await this.scheduleRetry(sub, { ...envelope, attempts: disposition.attempts }, disposition.delayMs)
+        sub.control.record('processed')
+      } else {
+        sub.control.record('processed')
+      }
+
+      return true
+    } catch (error) {
+      // Aborted on shutdown: leave pending for reclaim
+      if (sub.abort.signal.aborted) {
+        return false
+      }
+
+      console.error(`[RedisStreamsConsumer] Handler error:`, error)
+
+      if (deliveryCount >= maxRetries) {
+        // Send to DLQ
+        const envelope = fieldsToEnvelope<T>(fieldsToObject(fieldsArray))
+        await this.sendToDLQ(envelope, error as Error, this.getSource(sub, messageId, deliveryCount))
+        sub.control.record('deadLettered')
+
+        // ACK to remove from pending
+        return true
+      }
+
+      // If not max retries, message stays in pending and will be reclaimed
+      sub.control.record('failed')
+      return false
+    }
+  }
+
+  /**
+   * Re-schedule a message for this consumer group only (broker-side retry)
+   */
+  private async scheduleRetry<T>(
+    sub: SubscriptionState<T>,
+    envelope: MessageEnvelope<T>,
+    delayMs: number
+  ): Promise<void> {
+    await this.scheduler.schedule(
+      `${sub.consumerGroup}:${envelope.eventId}`,
+      sub.streamKey,
+      { ...envelopeToFields(envelope), [RETRY_GROUP_FIELD]: sub.consumerGroup },
+      Date.now() + delayMs
+    )
+
+    console.log(
+      `[RedisStreamsConsumer] Scheduled retry of ${envelope.eventId} in ${delayMs}ms (attempt ${envelope.attempts})`
+    )
+  }
+
+  private getSource<T>(
+    sub: SubscriptionState<T>,
+    messageId: string,
+    deliveryCount: number
+  ): DeliverySource {
     return {
-      eventId: fields.eventId,
-      type: fields.type,
-      jobId: fields.jobId,
-      occurredAt: fields.occurredAt,
-      version: parseInt(fields.version, 10),
-      attempts: parseInt(fields.attempts, 10),
-      correlationId: fields.correlationId,
-      causationId: fields.causationId,
-      payload: JSON.parse(fields.payload) as T,
+      topic: sub.topic,
+      consumerGroup: sub.consumerGroup,
+      consumerName: sub.consumerName,
+      messageId,
+      deliveryCount,
+    }
+  }
+
+  /**
+   * Check the Redis connection (PING)
+   */
+  async ping(): Promise<void> {
+    await this.redis.ping()
+  }
+
+  /**
+   * Stop every subscription (see drainSubscription)
+   */
+  async close(options: ConsumerCloseOptions = {}): Promise<void> {
+    console.log('[RedisStreamsConsumer] Stopping...')
+    await Promise.all([...this.subscriptions].map((sub) => sub.control.stop(options)))
+    console.log('[RedisStreamsConsumer] Stopped')
+  }
+
+  /**
+   * Stop fetching, wait up to `timeoutMs` for in-flight handlers, then abort the rest
+   * (their messages stay pending for reclaim) and resolve once the loop has exited
+   */
+  private async drainSubscription<T>(
+    sub: SubscriptionState<T>,
+    options: ConsumerCloseOptions
+  ): Promise<void> {
+    const { timeoutMs = RedisStreams.DEFAULTS.CLOSE_TIMEOUT_MS } = options
+
+    // Release a blocked XREADGROUP right away
+    sub.reader.disconnect()
+
+    const drained = await settlesWithin(
+      sub.loop.then(() => sub.backlog.onIdle()).then(() => sub.limiter.onIdle()),
+      timeoutMs
+    )
+
+    if (!drained) {
+      console.warn(
+        `[RedisStreamsConsumer] In-flight handlers on ${sub.streamKey} still running after ${timeoutMs}ms, aborting (unfinished messages left pending for reclaim)`
+      )
+      sub.abort.abort()
+      await sub.loop
+
+      // Completed messages waiting for an earlier (aborted) one would otherwise be redelivered
+      await this.ack(sub, sub.acks.flush()).catch((error) =>
+        console.error(`[RedisStreamsConsumer] ACK error:`, error)
+      )
+    }
+
+    this.subscriptions.delete(sub)
+    if (this.subscriptions.size === 0) {
+      await this.scheduler.stop()
     }
+    console.log(`[RedisStreamsConsumer] Stopped ${sub.streamKey} (${sub.consumerGroup}/${sub.consumerName})`)
   }
 
   /**
    * Send message to Dead Letter Queue
    */
-  private async sendToDLQ<T>(envelope: MessageEnvelope<T>, error: Error): Promise<void> {
-    // TODO: Implement DLQ logic
+  private async sendToDLQ<T>(
+    envelope: MessageEnvelope<T>,
+    error: Error,
+    source: DeliverySource
+  ): Promise<void> {
     console.error('[RedisStreamsConsumer] Sending to DLQ:', envelope.eventId, error.message)
+
+    await this.dlq.add(envelope, {
+      ...source,
+      failedAt: new Date().toISOString(),
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    })
   }
 }
-
@@ -0,0 +1,63 @@
+/**
+ * Redis Streams implementation of BrokerInspector (XLEN, XINFO GROUPS, XREVRANGE)
+ */
+
+import type { Redis } from 'ioredis'
+import type {
+  BrokerInspector,
+  ConsumerGroupInfo,
+  StoredMessage,
+  TopicInfo,
+} from '../../core/broker-inspector.port'
+import { REDIS_PREFIXES, RedisStreams } from './redis-streams.constants'
+import { fieldsToEnvelope, fieldsToObject } from './redis-streams.serializer'
+
+export class RedisStreamsInspector implements BrokerInspector {
+  constructor(private readonly redis: Redis) {}
+
+  async getTopicInfo(topic: string): Promise<TopicInfo> {
+    const streamKey = `${REDIS_PREFIXES.STREAM}${topic}`
+    const length = await this.redis.xlen(streamKey)
+
+    // XINFO fails on a missing stream
+    if (length === 0 && !(await this.redis.exists(streamKey))) {
+      return { topic, length: 0, groups: [] }
+    }
+
+    const rawGroups = (await this.redis.xinfo('GROUPS', streamKey)) as unknown[][]
+    const groups = rawGroups.map((raw) => toGroupInfo(raw))
+
+    return { topic, length, groups }
+  }
+
+  async getRecentMessages<T = unknown>(
+    topic: string,
+    count: number = RedisStreams.DEFAULTS.RECENT_MESSAGES
+  ): Promise<StoredMessage<T>[]> {
+    const streamKey = `${REDIS_PREFIXES.STREAM}${topic}`
+    const entries = await this.redis.xrevrange(streamKey, '+', '-', 'COUNT', count)
+
+    return entries.map(([id, fieldsArray]) => ({
+      id,
+      envelope: fieldsToEnvelope<T>(fieldsToObject(fieldsArray)),
+    }))
+  }
+}
+
+/**
+ * Parse one XINFO GROUPS reply (flat key/value list; `lag` needs Redis 7+)
+ */
+function toGroupInfo(raw: unknown[]): ConsumerGroupInfo {
+  const info: Record<string, unknown> = {}
+  for (let i = 0; i < raw.length; i += 2) {
+    info[String(raw[i])] = raw[i + 1]
+  }
+
+  return {
+    name: String(info.name),
+    consumers: Number(info.consumers),
+    pending: Number(info.pending),
+    lag: info.lag === undefined || info.lag === null ? undefined : Number(info.lag),
+    lastDeliveredId: info['last-delivered-id'] ? String(info['last-delivered-id']) : undefined,
+  }
+}
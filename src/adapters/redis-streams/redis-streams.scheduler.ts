@@ -0,0 +1,170 @@
+/**
+ * Redis scheduler for delayed stream entries
+ * Entries wait in a sorted set (score = due time) and are moved into their
+ * target stream by an atomic Lua script once due
+ */
+
+import type { Redis } from 'ioredis'
+import { REDIS_PREFIXES, RedisStreams } from './redis-streams.constants'
+import { sleep } from '../../core/concurrency'
+
+/**
+ * Move due entries into their streams (ZRANGEBYSCORE + XADD + ZREM in one step)
+ * An entry that can't be decoded or added is moved aside to the failed hash,
+ * so it doesn't block the entries behind it.
+ * KEYS[1] = schedule sorted set, KEYS[2] = entry data hash, KEYS[3] = failed entry hash
+ * ARGV[1] = now (ms), ARGV[2] = max entries per call
+ * Returns { entries taken, { failed id, error, ... } }
+ *
+ * Note: target stream keys are read from the entry data, so this script is
+ * not Redis Cluster compatible unless all keys share a hash slot.
+ */
+const PROMOTE_DUE_SCRIPT = `
+local function promote(raw)
+  local entry = cjson.decode(raw)
+  local result = redis.pcall('XADD', entry.stream, '*', unpack(entry.fields))
+  if type(result) == 'table' and result.err then
+    error(result.err, 0)
+  end
+end
+
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+local failed = {}
+for _, id in ipairs(ids) do
+  local raw = redis.call('HGET', KEYS[2], id)
+  if raw then
+    local ok, err = pcall(promote, raw)
+    if not ok then
+      redis.call('HSET', KEYS[3], id, raw)
+      table.insert(failed, id)
+      table.insert(failed, tostring(err))
+    end
+  end
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('HDEL', KEYS[2], id)
+end
+return { #ids, failed }
+`
+
+export class RedisStreamsScheduler {
+  private readonly queueKey = `${REDIS_PREFIXES.SCHEDULED}queue`
+  private readonly dataKey = `${REDIS_PREFIXES.SCHEDULED}data`
+  private readonly failedKey = `${REDIS_PREFIXES.SCHEDULED}failed`
+  private polling?: { abort: AbortController; loop: Promise<void> }
+
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * Schedule stream fields to be added to `streamKey` at `deliverAt`
+   * @param id Unique schedule ID (re-scheduling the same ID replaces it)
+   */
+  async schedule(
+    id: string,
+    streamKey: string,
+    fields: Record<string, string>,
+    deliverAt: number
+  ): Promise<void> {
+    const entry = JSON.stringify({ stream: streamKey, fields: Object.entries(fields).flat() })
+
+    await this.redis
+      .multi()
+      .hset(this.dataKey, id, entry)
+      .zadd(this.queueKey, deliverAt, id)
+      .exec()
+  }
+
+  /**
+   * Cancel a scheduled entry before it is moved into its stream
+   * @returns true if the entry was still scheduled
+   */
+  async cancel(id: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .zrem(this.queueKey, id)
+      .hdel(this.dataKey, id)
+      .exec()
+
+    return Number(results?.[0]?.[1] ?? 0) > 0
+  }
+
+  /**
+   * Number of entries waiting to be delivered
+   */
+  async size(): Promise<number> {
+    return this.redis.zcard(this.queueKey)
+  }
+
+  /**
+   * Move all due entries into their target streams
+   * Entries that fail to be added are logged and kept in the `scheduled:failed` hash.
+   * @returns number of entries moved
+   */
+  async promoteDue(now = Date.now()): Promise<number> {
+    let total = 0
+    let taken: number
+
+    do {
+      const [count, failed] = (await this.redis.eval(
+        PROMOTE_DUE_SCRIPT,
+        3,
+        this.queueKey,
+        this.dataKey,
+        this.failedKey,
+        now,
+        RedisStreams.DEFAULTS.BATCH_SIZE
+      )) as [number, string[]]
+
+      for (let index = 0; index < failed.length; index += 2) {
+        console.error(
+          `[RedisStreamsScheduler] Failed to deliver ${failed[index]}, moved to ${this.failedKey}:`,
+          failed[index + 1]
+        )
+      }
+
+      taken = count
+      total += count - failed.length / 2
+    } while (taken === RedisStreams.DEFAULTS.BATCH_SIZE)
+
+    return total
+  }
+
+  /**
+   * Promote due entries every `intervalMs` until stop()
+   * (started by RedisStreamsConsumer while subscribed, and by RedisStreamsBus on a delayed publish)
+   */
+  start(intervalMs: number = RedisStreams.DEFAULTS.SCHEDULER_POLL_MS): void {
+    if (this.polling) {
+      return
+    }
+
+    const abort = new AbortController()
+    this.polling = { abort, loop: this.poll(intervalMs, abort.signal) }
+    console.log(`[RedisStreamsScheduler] Polling every ${intervalMs}ms`)
+  }
+
+  /**
+   * Stop polling (resolves once the current promotion has finished)
+   */
+  async stop(): Promise<void> {
+    const polling = this.polling
+    if (!polling) {
+      return
+    }
+
+    this.polling = undefined
+    polling.abort.abort()
+    await polling.loop
+    console.log('[RedisStreamsScheduler] Stopped polling')
+  }
+
+  private async poll(intervalMs: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        await this.promoteDue()
+      } catch (error) {
+        console.error('[RedisStreamsScheduler] Promote error:', error)
+      }
+      await sleep(intervalMs, signal)
+    }
+  }
+}
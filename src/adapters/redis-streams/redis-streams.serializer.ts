@@ -0,0 +1,56 @@
+/**
+ * MessageEnvelope <-> Redis Stream fields conversion
+ */
+
+import type { MessageEnvelope } from '../../core/message-envelope'
+
+/**
+ * Serialize envelope to Redis Stream fields
+ */
+export function envelopeToFields<T>(envelope: MessageEnvelope<T>): Record<string, string> {
+  return {
+    eventId: envelope.eventId,
+    type: envelope.type,
+    jobId: envelope.jobId,
+    occurredAt: envelope.occurredAt,
+    version: envelope.version.toString(),
+    attempts: (envelope.attempts ?? 0).toString(),
+    payload: JSON.stringify(envelope.payload),
+    ...(envelope.correlationId && { correlationId: envelope.correlationId }),
+    ...(envelope.causationId && { causationId: envelope.causationId }),
+    ...(envelope.traceparent && { traceparent: envelope.traceparent }),
+    ...(envelope.tracestate && { tracestate: envelope.tracestate }),
+    ...(envelope.headers && { headers: JSON.stringify(envelope.headers) }),
+  }
+}
+
+/**
+ * Parse Redis Stream fields to MessageEnvelope
+ */
+export function fieldsToEnvelope<T>(fields: Record<string, string>): MessageEnvelope<T> {
+  return {
+    eventId: fields.eventId,
+    type: fields.type,
+    jobId: fields.jobId,
+    occurredAt: fields.occurredAt,
+    version: parseInt(fields.version, 10),
+    attempts: parseInt(fields.attempts || '0', 10),
+    correlationId: fields.correlationId,
+    causationId: fields.causationId,
+    traceparent: fields.traceparent,
+    tracestate: fields.tracestate,
+    headers: fields.headers ? (JSON.parse(fields.headers) as Record<string, string>) : undefined,
+    payload: JSON.parse(fields.payload) as T,
+  }
+}
+
+/**
+ * Convert Redis fields array ([k1, v1, k2, v2, ...]) to object
+ */
+export function fieldsToObject(fields: string[]): Record<string, string> {
+  const obj: Record<string, string> = {}
+  for (let i = 0; i < fields.length; i += 2) {
+    obj[fields[i]] = fields[i + 1]
+  }
+  return obj
+}
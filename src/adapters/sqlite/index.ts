@@ -0,0 +1,13 @@
+/**
+ * SQLite adapter for elysia-messaging (transactional outbox)
+ * 
+ * Usage:
+ * ```typescript
+ * import { Database } from 'bun:sqlite'
+ * import { SqliteOutboxStore } from 'elysia-messaging/sqlite'
+ * 
+ * const outbox = new SqliteOutboxStore(new Database('app.db'))
+ * ```
+ */
+
+export * from './sqlite-outbox.store'
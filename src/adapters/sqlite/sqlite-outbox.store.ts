@@ -0,0 +1,273 @@
+/**
+ * SQLite implementation of OutboxStore (reference implementation)
+ * Works with `bun:sqlite` (and other drivers exposing exec / prepare, e.g. better-sqlite3)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { OutboxEntry, OutboxRecord, OutboxStore } from '../../core/outbox-store.port'
+
+/**
+ * Value bound to a statement parameter
+ */
+export type SqliteValue = string | number | bigint | null
+
+/**
+ * Prepared statement (subset of bun:sqlite's Statement)
+ */
+export interface SqliteStatement {
+  run(...params: SqliteValue[]): { changes: number | bigint }
+  all(...params: SqliteValue[]): unknown[]
+}
+
+/**
+ * Database connection (subset of bun:sqlite's Database)
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+}
+
+/**
+ * SQLite outbox configuration
+ */
+export interface SqliteOutboxStoreOptions {
+  /** Outbox table, created if missing (default: 'messaging_outbox') */
+  tableName?: string
+}
+
+interface OutboxRow {
+  seq: number
+  id: string
+  topic: string
+  envelope: string
+  deliver_at: number | null
+  attempts: number
+  last_error: string | null
+}
+
+const DEFAULT_TABLE_NAME = 'messaging_outbox'
+
+/**
+ * Outbox table in the application's SQLite database
+ *
+ * SQLite has one transaction per connection, so every access goes through one queue:
+ * a transaction() holds it until it commits, and publishes made outside of it (or relay
+ * queries) wait instead of landing in it. Publishes made inside `fn` join the transaction.
+ *
+ * A transaction managed by the caller (e.g. bun:sqlite's synchronous `db.transaction()`)
+ * is joined by publishing with `messaging.withTransaction(db)`: the row is written right
+ * away on that connection, without queueing.
+ *
+ * @example
+ * ```ts
+ * import { Database } from 'bun:sqlite'
+ *
+ * const db = new Database('app.db')
+ * const outbox = new SqliteOutboxStore(db)
+ * const app = new Elysia().use(messaging({ registry, bus: redisBus, outbox }))
+ *
+ * await outbox.transaction(async () => {
+ *   db.prepare('INSERT INTO videos (id, url) VALUES (?, ?)').run(videoId, url)
+ *   await messaging.publish('video.jobs', { videoId, url })
+ * })
+ * ```
+ */
+export class SqliteOutboxStore implements OutboxStore<SqliteDatabase> {
+  private readonly insertSql: string
+  private readonly statements: {
+    insert: SqliteStatement
+    claim: SqliteStatement
+    complete: SqliteStatement
+    fail: SqliteStatement
+    giveUp: SqliteStatement
+    cleanup: SqliteStatement
+  }
+
+  /** Serializes transactions, publishes and relay queries sharing the connection */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /** Set while `fn` of a transaction() runs (async context) */
+  private readonly transactionScope = new AsyncLocalStorage<true>()
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: SqliteOutboxStoreOptions = {}
+  ) {
+    const table = options.tableName ?? DEFAULT_TABLE_NAME
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid outbox table name: ${table}`)
+    }
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        topic TEXT NOT NULL,
+        envelope TEXT NOT NULL,
+        deliver_at INTEGER,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        available_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        published_at INTEGER,
+        failed_at INTEGER,
+        idempotency_key TEXT
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_pending
+        ON ${table} (available_at) WHERE published_at IS NULL AND failed_at IS NULL;
+      CREATE INDEX IF NOT EXISTS ${table}_published
+        ON ${table} (published_at) WHERE published_at IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS ${table}_idempotency
+        ON ${table} (topic, idempotency_key) WHERE idempotency_key IS NOT NULL;
+    `)
+
+    // A key already in the outbox (committed, or earlier in this transaction) skips the entry
+    this.insertSql = `INSERT INTO ${table}
+      (id, topic, envelope, deliver_at, idempotency_key, available_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (topic, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING`
+
+    this.statements = {
+      insert: db.prepare(this.insertSql),
+      claim: db.prepare(
+        `UPDATE ${table} SET attempts = attempts + 1, available_at = ?
+         WHERE id IN (
+           SELECT id FROM ${table}
+           WHERE published_at IS NULL AND failed_at IS NULL AND available_at <= ?
+           ORDER BY rowid LIMIT ?
+         )
+         RETURNING rowid AS seq, id, topic, envelope, deliver_at, attempts, last_error`
+      ),
+      complete: db.prepare(
+        `UPDATE ${table} SET published_at = ?
+         WHERE id IN (SELECT value FROM json_each(?))`
+      ),
+      fail: db.prepare(`UPDATE ${table} SET last_error = ?, available_at = ? WHERE id = ?`),
+      giveUp: db.prepare(`UPDATE ${table} SET last_error = ?, failed_at = ? WHERE id = ?`),
+      cleanup: db.prepare(
+        `DELETE FROM ${table} WHERE published_at IS NOT NULL AND published_at < ?`
+      ),
+    }
+  }
+
+  /**
+   * Run `fn` in a database transaction (committed if it resolves, rolled back if it throws)
+   * Transactions run one at a time on the connection.
+   * @throws Error if called from inside another transaction() (it would wait for itself)
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return Promise.reject(new Error('[SqliteOutboxStore] Nested transaction() is not supported'))
+    }
+
+    return this.exclusive(() =>
+      this.transactionScope.run(true, async () => {
+        this.db.exec('BEGIN IMMEDIATE')
+        try {
+          const result = await fn()
+          this.db.exec('COMMIT')
+          return result
+        } catch (error) {
+          this.db.exec('ROLLBACK')
+          throw error
+        }
+      })
+    )
+  }
+
+  /**
+   * Insert the entries (all or none)
+   * @param transaction Connection of a caller-managed transaction to write on right away
+   * @returns Number of entries written (an already used idempotency key skips the entry)
+   */
+  async add(entries: OutboxEntry[], transaction?: SqliteDatabase): Promise<number> {
+    if (transaction) {
+      const insert =
+        transaction === this.db ? this.statements.insert : transaction.prepare(this.insertSql)
+      return this.insert(transaction, insert, entries)
+    }
+
+    // Inside transaction(): join it (the queue is already held)
+    if (this.transactionScope.getStore()) {
+      return this.insert(this.db, this.statements.insert, entries)
+    }
+
+    return this.exclusive(async () => this.insert(this.db, this.statements.insert, entries))
+  }
+
+  claim(limit: number, leaseMs: number): Promise<OutboxRecord[]> {
+    return this.exclusive(async () => {
+      const now = Date.now()
+      const rows = this.statements.claim.all(now + leaseMs, now, limit) as OutboxRow[]
+
+      return rows
+        .sort((a, b) => a.seq - b.seq)
+        .map((row) => ({
+          id: row.id,
+          topic: row.topic,
+          envelope: JSON.parse(row.envelope),
+          deliverAt: row.deliver_at ?? undefined,
+          attempts: row.attempts,
+          lastError: row.last_error ?? undefined,
+        }))
+    })
+  }
+
+  complete(ids: string[]): Promise<void> {
+    return this.exclusive(async () => {
+      this.statements.complete.run(Date.now(), JSON.stringify(ids))
+    })
+  }
+
+  fail(id: string, error: string, retryAt?: number): Promise<void> {
+    return this.exclusive(async () => {
+      if (retryAt === undefined) {
+        this.statements.giveUp.run(error, Date.now(), id)
+      } else {
+        this.statements.fail.run(error, retryAt, id)
+      }
+    })
+  }
+
+  cleanup(publishedBefore: number): Promise<number> {
+    return this.exclusive(async () => Number(this.statements.cleanup.run(publishedBefore).changes))
+  }
+
+  async close(): Promise<void> {
+    // Database connection is managed externally
+    console.log('[SqliteOutboxStore] Closing...')
+  }
+
+  /**
+   * Insert synchronously, in the connection's current transaction if any
+   * (a savepoint keeps a multi-entry write all or none)
+   * @returns Number of inserted rows
+   */
+  private insert(db: SqliteDatabase, insert: SqliteStatement, entries: OutboxEntry[]): number {
+    const now = Date.now()
+    let inserted = 0
+
+    db.exec('SAVEPOINT outbox_add')
+    try {
+      for (const { topic, envelope, deliverAt, idempotencyKey } of entries) {
+        const json = JSON.stringify(envelope)
+        const row = [envelope.eventId, topic, json, deliverAt ?? null, idempotencyKey ?? null]
+        inserted += Number(insert.run(...row, now, now).changes)
+      }
+      db.exec('RELEASE outbox_add')
+      return inserted
+    } catch (error) {
+      db.exec('ROLLBACK TO outbox_add')
+      db.exec('RELEASE outbox_add')
+      throw error
+    }
+  }
+
+  /**
+   * Run after every previously queued transaction or query has settled
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn, fn)
+    this.queue = result.catch(() => {})
+    return result
+  }
+}
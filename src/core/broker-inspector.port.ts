@@ -0,0 +1,60 @@
+import type { MessageEnvelope } from './message-envelope'
+
+/**
+ * Consumer group of a topic, as seen by the broker
+ */
+export interface ConsumerGroupInfo {
+  /** Consumer group name */
+  name: string
+
+  /** Number of consumers registered in the group (if the broker tracks them) */
+  consumers?: number
+
+  /** Messages delivered to the group but not yet acknowledged */
+  pending: number
+
+  /** Messages not yet delivered to the group (undefined if the broker can't tell) */
+  lag?: number
+
+  /** ID of the last message delivered to the group */
+  lastDeliveredId?: string
+}
+
+/**
+ * Broker-side state of a topic
+ */
+export interface TopicInfo {
+  topic: string
+
+  /** Number of messages currently stored for the topic */
+  length: number
+
+  /** Consumer groups reading the topic */
+  groups: ConsumerGroupInfo[]
+}
+
+/**
+ * A stored message with its broker ID
+ */
+export interface StoredMessage<T = unknown> {
+  /** Broker message ID */
+  id: string
+
+  envelope: MessageEnvelope<T>
+}
+
+/**
+ * Port for read-only broker inspection (admin tooling, dashboards)
+ */
+export interface BrokerInspector {
+  /**
+   * Message count and consumer groups of a topic
+   * (a topic that was never used has length 0 and no groups)
+   */
+  getTopicInfo(topic: string): Promise<TopicInfo>
+
+  /**
+   * Most recent messages of a topic, newest first
+   */
+  getRecentMessages<T = unknown>(topic: string, count?: number): Promise<StoredMessage<T>[]>
+}
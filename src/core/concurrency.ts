@@ -0,0 +1,284 @@
+/**
+ * Concurrency primitives shared by consumer adapters
+ */
+
+import type { OrderingKey } from './message-consumer.port'
+
+/**
+ * Bounds the number of handlers running at the same time
+ */
+export class ConcurrencyLimiter {
+  private active = 0
+  private currentLimit: number
+  private readonly waiters: Array<() => void> = []
+  private idleWaiters: Array<() => void> = []
+
+  constructor(limit: number) {
+    this.currentLimit = assertConcurrency(limit)
+  }
+
+  /** Maximum number of slots */
+  get limit(): number {
+    return this.currentLimit
+  }
+
+  /**
+   * Change the number of slots: extra slots go to waiters right away,
+   * removed ones are reclaimed as running tasks finish
+   */
+  setLimit(limit: number): void {
+    this.currentLimit = assertConcurrency(limit)
+
+    while (this.active < this.currentLimit && this.waiters.length > 0) {
+      this.active++
+      this.waiters.shift()!()
+    }
+  }
+
+  /** Number of slots currently taken */
+  get inFlight(): number {
+    return this.active
+  }
+
+  /**
+   * Take a slot, waiting for one to be released if all are taken
+   * @returns false if `signal` was aborted before a slot became free
+   */
+  async acquire(signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return false
+    }
+
+    if (this.active < this.currentLimit) {
+      this.active++
+      return true
+    }
+
+    // The releasing task hands its slot over, so `active` stays unchanged
+    return new Promise<boolean>((resolve) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter)
+        if (index !== -1) this.waiters.splice(index, 1)
+        resolve(false)
+      }
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(true)
+      }
+
+      this.waiters.push(waiter)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Give a slot back (to the next waiter, if any)
+   */
+  release(): void {
+    // Over the limit after setLimit(): retire the slot instead of handing it over
+    if (this.active <= this.currentLimit) {
+      const next = this.waiters.shift()
+      if (next) {
+        next()
+        return
+      }
+    }
+
+    this.active--
+    if (this.active === 0) {
+      const idleWaiters = this.idleWaiters
+      this.idleWaiters = []
+      idleWaiters.forEach((resolve) => resolve())
+    }
+  }
+
+  /**
+   * Resolve once no slot is taken
+   */
+  async onIdle(): Promise<void> {
+    if (this.active === 0) {
+      return
+    }
+    await new Promise<void>((resolve) => this.idleWaiters.push(resolve))
+  }
+}
+
+function assertConcurrency(limit: number): number {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError(`concurrency must be a positive integer (got ${limit})`)
+  }
+  return limit
+}
+
+/**
+ * Releases ACKs in delivery order: a settled message is only acknowledged
+ * once every message delivered before it has settled too
+ */
+export class AckSequencer<TId = string> {
+  /** Tracked IDs in delivery order: null while in flight, then whether to ACK */
+  private readonly entries = new Map<TId, boolean | null>()
+
+  /** Number of tracked messages not yet released */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Start tracking a delivered message
+   */
+  track(id: TId): void {
+    this.entries.set(id, null)
+  }
+
+  /**
+   * Check if a message is in flight or waiting for earlier ones
+   */
+  has(id: TId): boolean {
+    return this.entries.has(id)
+  }
+
+  /**
+   * Mark a message as settled
+   * @param ack false to leave the message pending (for redelivery)
+   * @returns IDs that can be acknowledged now, in delivery order
+   */
+  settle(id: TId, ack: boolean): TId[] {
+    if (!this.entries.has(id)) {
+      return ack ? [id] : []
+    }
+
+    this.entries.set(id, ack)
+
+    const ready: TId[] = []
+    for (const [entryId, state] of this.entries) {
+      if (state === null) {
+        break
+      }
+      this.entries.delete(entryId)
+      if (state) {
+        ready.push(entryId)
+      }
+    }
+
+    return ready
+  }
+
+  /**
+   * Stop waiting for earlier messages (shutdown): release every settled message now
+   * @returns IDs to acknowledge, in delivery order (in-flight messages stay tracked)
+   */
+  flush(): TId[] {
+    const ready: TId[] = []
+    for (const [entryId, state] of this.entries) {
+      if (state === null) {
+        continue
+      }
+      this.entries.delete(entryId)
+      if (state) {
+        ready.push(entryId)
+      }
+    }
+
+    return ready
+  }
+}
+
+/**
+ * Runs tasks sharing a key one after another (tasks with different keys run in parallel)
+ */
+export class KeyedSerializer {
+  /** Last queued task per key (settles when the key is free again) */
+  private readonly tails = new Map<string, Promise<void>>()
+
+  /** Number of keys with queued or running tasks */
+  get size(): number {
+    return this.tails.size
+  }
+
+  /**
+   * Run a task after every earlier task with the same key has finished
+   * (no key = run immediately)
+   */
+  run<T>(key: string | undefined, task: () => Promise<T>): Promise<T> {
+    if (key === undefined) {
+      return task()
+    }
+
+    const previous = this.tails.get(key) ?? Promise.resolve()
+    const result = previous.then(task)
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    )
+
+    this.tails.set(key, tail)
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key)
+      }
+    })
+
+    return result
+  }
+}
+
+/**
+ * Resolve the `orderingKey` consumer option (default: `envelope.jobId`, `false` = unordered)
+ * A key function that throws leaves the message unordered
+ */
+export function resolveOrderingKey(option: OrderingKey | false | undefined): OrderingKey {
+  if (option === false) {
+    return () => undefined
+  }
+
+  const orderingKey: OrderingKey = option ?? ((envelope) => envelope.jobId)
+  return (envelope) => {
+    try {
+      return orderingKey(envelope)
+    } catch (error) {
+      console.warn('[Consumer] orderingKey failed, processing without ordering:', error)
+      return undefined
+    }
+  }
+}
+
+/**
+ * Wait for a promise, giving up after `timeoutMs`
+ * @returns true if the promise settled in time
+ */
+export async function settlesWithin(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const timedOut = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs)
+  })
+
+  try {
+    return await Promise.race([promise.then(() => true, () => true), timedOut])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Sleep for `ms`, waking up early if `signal` is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -3,30 +3,92 @@
  */
 
 import type { MessageEnvelope } from './message-envelope'
+import type { RetryPolicy, RetryMode } from './retry-policy'
+import type { ErrorClassifier } from './errors'
+import type { OrderingKey } from './message-consumer.port'
 import type { TopicRegistry, TopicName, TopicPayload } from './registry.types'
 
+/**
+ * Default maximum attempts before a message is sent to the DLQ
+ */
+export const DEFAULT_MAX_RETRIES = 3
+
+/**
+ * Default processing lease of idempotent consumers (ms)
+ */
+export const DEFAULT_DEDUPE_LEASE_MS = 300000
+
 /**
  * Consumer configuration options
  */
 export interface ConsumerOptions {
-  /** Maximum retry attempts before DLQ */
+  /** Maximum attempts (in-process retries + broker redeliveries) before DLQ */
   maxRetries?: number
   
-  /** Delay between retries (ms) */
+  /** Delay between retries (ms), shorthand for `retry: { type: 'fixed', delayMs }` */
   retryDelayMs?: number
   
+  /** Retry backoff policy (fixed, linear, exponential or custom function) */
+  retry?: RetryPolicy
+  
+  /** Wait for retries in-process ('inline', default) or re-schedule on the broker ('broker') */
+  retryMode?: RetryMode
+  
+  /** Classify handler errors as retry / dlq / drop (default: by error class, see `classifyError`) */
+  classifyError?: ErrorClassifier
+  
   /** Block time when waiting for messages (ms) */
   blockMs?: number
   
+  /** Maximum number of handlers running at the same time per consumer (default: 1) */
+  concurrency?: number
+  
+  /** Maximum number of messages fetched per read (default: adapter's, 10) */
+  batchSize?: number
+  
+  /**
+   * Messages sharing this key are handled one at a time, in order, even with `concurrency` > 1
+   * (default: `envelope.jobId`; pass a function of the envelope, or false to disable)
+   */
+  orderingKey?: OrderingKey | false
+  
+  /** Minimum idle time before an unacknowledged message is reclaimed for retry (ms) */
+  claimMinIdleMs?: number
+  
+  /** Interval between reclaim cycles for unacknowledged messages (ms) */
+  claimIntervalMs?: number
+  
+  /**
+   * Only handle messages this returns true for; the others are acknowledged without
+   * running hooks or the handler (e.g. `(envelope) => envelope.headers?.tenant === 'acme'`)
+   */
+  filter?: (envelope: MessageEnvelope<any>) => boolean
+  
   /** Skip invalid payloads (log + ack) instead of throwing */
   skipInvalidPayload?: boolean
+
+  /** Dead-letter invalid payloads right away instead of throwing (which retries up to maxRetries) */
+  deadLetterInvalidPayload?: boolean
   
   /** Enable idempotency checking via dedupe store */
   idempotency?: boolean
   
+  /**
+   * Dedupe key of a message with `idempotency` (default: `envelope.eventId`), so that
+   * re-published duplicates are skipped too, e.g. built from the payload's videoId and step
+   */
+  idempotencyKey?: (envelope: MessageEnvelope<any>) => string | undefined
+  
   /** Custom dedupe TTL (seconds, default 24h) */
   dedupeTtl?: number
   
+  /**
+   * How long a worker holds the processing lease of a message (ms, default 5 minutes).
+   * A duplicate delivered meanwhile is re-delivered after this delay; keep it above
+   * the handler's worst-case duration (including inline retries).
+   */
+  dedupeLeaseMs?: number
+  
   /** Start reading from this message ID */
   startId?: string
   
@@ -41,10 +103,20 @@ export interface HandlerContext<TPayload = any, TMessaging = any> {
   /** Message envelope */
   envelope: MessageEnvelope<TPayload>
   
-  /** Current attempt number (1-based) */
+  /** Current attempt number (1-based), counting in-process retries and broker redeliveries */
   attempt: number
   
-  /** Messaging client for publishing (if available) */
+  /** Number of times the broker has delivered this message (1 = first delivery) */
+  deliveryCount: number
+  
+  /** Aborted when the consumer shuts down and the drain timeout has passed */
+  signal?: AbortSignal
+  
+  /**
+   * Messaging client for publishing (if available), scoped to this message:
+   * publishes inherit its jobId and correlationId and get `causationId = envelope.eventId`
+   * (override any of them through `meta`)
+   */
   messaging?: TMessaging
 }
 
@@ -0,0 +1,267 @@
+/**
+ * Runtime management of registered consumers (list, add, pause, resume, stop, concurrency)
+ */
+
+import type {
+  ConsumerCloseOptions,
+  MessageConsumer,
+  Subscription,
+  SubscriptionStats,
+  SubscriptionStatus,
+} from './message-consumer.port'
+import type { DedupeStore } from './dedupe-store.port'
+import type { ConsumerDescriptor } from './consumer-descriptor'
+import type { TopicRegistry, TopicName } from './registry.types'
+import type { ConsumerHooks } from './handler-wrapper'
+import { wrapHandler, getSubscribeOptions } from './handler-wrapper'
+import type { MessagingMetrics } from './metrics'
+import type { MessagingTracer } from './tracing'
+
+/**
+ * State of a managed consumer ('registered' = waiting for start())
+ */
+export type ManagedConsumerStatus = SubscriptionStatus | 'registered'
+
+/**
+ * Snapshot of a managed consumer
+ */
+export interface ConsumerInfo {
+  /** Consumer ID (`topic:group:name`) */
+  id: string
+  topic: string
+  group: string
+  name: string
+  status: ManagedConsumerStatus
+  concurrency: number
+
+  /** Counters of the running subscription (undefined until started) */
+  stats?: SubscriptionStats
+}
+
+/**
+ * Dependencies of a ConsumerManager
+ */
+export interface ConsumerManagerOptions<TRegistry extends TopicRegistry<any>> {
+  /** Adapter to subscribe each topic with */
+  resolveConsumer: (topic: TopicName<TRegistry>) => MessageConsumer
+
+  /** Observability hooks */
+  hooks?: ConsumerHooks<TRegistry>
+
+  /** Dedupe store for idempotent consumers */
+  dedupe?: DedupeStore
+
+  /** Built-in metrics */
+  metrics?: MessagingMetrics
+
+  /** Tracer for consumer spans */
+  tracer?: MessagingTracer
+}
+
+interface ManagedConsumer<TRegistry extends TopicRegistry<any>> {
+  descriptor: ConsumerDescriptor<TRegistry, any>
+  adapter?: MessageConsumer
+  subscription?: Subscription
+}
+
+/**
+ * ID of a consumer descriptor (`topic:group:name`)
+ */
+export function getConsumerId(descriptor: ConsumerDescriptor<any, any>): string {
+  return `${descriptor.topic}:${descriptor.group}:${descriptor.name}`
+}
+
+/**
+ * Keeps the subscription of every consumer descriptor and controls them at runtime
+ *
+ * @example
+ * ```ts
+ * app.get('/ops/consumers', ({ consumers }) => consumers.list())
+ * app.post('/ops/consumers/:id/pause', ({ consumers, params }) => consumers.pause(params.id))
+ * ```
+ */
+export class ConsumerManager<TRegistry extends TopicRegistry<any>> {
+  private readonly entries = new Map<string, ManagedConsumer<TRegistry>>()
+  private started = false
+  private messaging?: unknown
+
+  constructor(private readonly options: ConsumerManagerOptions<TRegistry>) {}
+
+  /**
+   * Register a descriptor to be subscribed by start()
+   */
+  register(descriptor: ConsumerDescriptor<TRegistry, any>): void {
+    const id = getConsumerId(descriptor)
+    if (this.isActive(this.entries.get(id))) {
+      throw new Error(`Consumer already registered: ${id}`)
+    }
+    this.entries.set(id, { descriptor })
+  }
+
+  /**
+   * Subscribe every registered consumer
+   * @param messaging Messaging client injected into handler contexts
+   */
+  async start(messaging?: unknown): Promise<void> {
+    this.started = true
+    this.messaging = messaging
+
+    for (const entry of this.entries.values()) {
+      if (!entry.subscription) {
+        await this.subscribe(entry)
+      }
+    }
+  }
+
+  /**
+   * Add a consumer at runtime (subscribed right away once started)
+   * A stopped consumer with the same ID is replaced
+   */
+  async add(descriptor: ConsumerDescriptor<TRegistry, any>): Promise<ConsumerInfo> {
+    this.register(descriptor)
+    const entry = this.entries.get(getConsumerId(descriptor))!
+
+    if (this.started) {
+      await this.subscribe(entry)
+    }
+
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Snapshot of every managed consumer
+   */
+  list(): ConsumerInfo[] {
+    return [...this.entries.values()].map((entry) => this.toInfo(entry))
+  }
+
+  /**
+   * Snapshot of one consumer (undefined if unknown)
+   */
+  get(id: string): ConsumerInfo | undefined {
+    const entry = this.entries.get(id)
+    return entry && this.toInfo(entry)
+  }
+
+  /**
+   * Stop fetching for one consumer (in-flight handlers finish)
+   */
+  pause(id: string): ConsumerInfo {
+    const entry = this.getEntry(id)
+    this.getSubscription(entry).pause()
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Resume a paused consumer
+   */
+  resume(id: string): ConsumerInfo {
+    const entry = this.getEntry(id)
+    this.getSubscription(entry).resume()
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Stop one consumer (drains its in-flight handlers); it stays listed as 'stopped'
+   */
+  async stop(id: string, options?: ConsumerCloseOptions): Promise<ConsumerInfo> {
+    const entry = this.getEntry(id)
+    await this.getSubscription(entry).stop(options)
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Change how many handlers of one consumer run at the same time
+   */
+  setConcurrency(id: string, concurrency: number): ConsumerInfo {
+    const entry = this.getEntry(id)
+
+    if (entry.subscription) {
+      entry.subscription.setConcurrency(concurrency)
+    } else {
+      const { descriptor } = entry
+      entry.descriptor = { ...descriptor, options: { ...descriptor.options, concurrency } }
+    }
+
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Stop every consumer
+   */
+  async stopAll(options?: ConsumerCloseOptions): Promise<void> {
+    this.started = false
+    await Promise.all(
+      [...this.entries.values()].map((entry) => entry.subscription?.stop(options))
+    )
+  }
+
+  /**
+   * Adapters that have (or had) subscriptions
+   */
+  adapters(): MessageConsumer[] {
+    const adapters = new Set<MessageConsumer>()
+    for (const entry of this.entries.values()) {
+      if (entry.adapter) adapters.add(entry.adapter)
+    }
+    return [...adapters]
+  }
+
+  private async subscribe(entry: ManagedConsumer<TRegistry>): Promise<void> {
+    const { descriptor } = entry
+    const { hooks, dedupe, metrics, tracer } = this.options
+    const adapter = this.options.resolveConsumer(descriptor.topic)
+    const wrappedHandler = wrapHandler(descriptor, {
+      hooks,
+      dedupe,
+      metrics,
+      tracer,
+      messaging: this.messaging,
+    })
+
+    console.log(
+      `[Messaging Consumers] Registering: ${descriptor.topic} (${descriptor.group}/${descriptor.name})`
+    )
+
+    entry.adapter = adapter
+    entry.subscription = await adapter.subscribe(
+      descriptor.topic,
+      wrappedHandler,
+      getSubscribeOptions(descriptor)
+    )
+  }
+
+  private getEntry(id: string): ManagedConsumer<TRegistry> {
+    const entry = this.entries.get(id)
+    if (!entry) {
+      throw new Error(`Unknown consumer: ${id}`)
+    }
+    return entry
+  }
+
+  private getSubscription(entry: ManagedConsumer<TRegistry>): Subscription {
+    if (!entry.subscription) {
+      throw new Error(`Consumer not started: ${getConsumerId(entry.descriptor)}`)
+    }
+    return entry.subscription
+  }
+
+  private isActive(entry: ManagedConsumer<TRegistry> | undefined): boolean {
+    if (!entry) return false
+    return !entry.subscription || entry.subscription.status !== 'stopped'
+  }
+
+  private toInfo(entry: ManagedConsumer<TRegistry>): ConsumerInfo {
+    const { descriptor, subscription } = entry
+
+    return {
+      id: getConsumerId(descriptor),
+      topic: descriptor.topic,
+      group: descriptor.group,
+      name: descriptor.name,
+      status: subscription?.status ?? 'registered',
+      concurrency: subscription?.concurrency ?? descriptor.options?.concurrency ?? 1,
+      stats: subscription?.stats,
+    }
+  }
+}
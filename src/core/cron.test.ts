@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import { nextCronTime, parseCron } from './cron'
+
+describe('parseCron', () => {
+  test('expands steps, ranges and lists', () => {
+    const cron = parseCron('*/15 9-11 1,15 * *')
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+    expect([...cron.hours]).toEqual([9, 10, 11])
+    expect([...cron.daysOfMonth]).toEqual([1, 15])
+    expect(cron.months.size).toBe(12)
+  })
+
+  test('accepts month and day names, and 7 as Sunday', () => {
+    const cron = parseCron('0 0 * jan-mar sat-7')
+
+    expect([...cron.months]).toEqual([1, 2, 3])
+    expect([...cron.daysOfWeek].sort()).toEqual([0, 6])
+  })
+
+  test('expands macros', () => {
+    const cron = parseCron('@daily')
+
+    expect([...cron.minutes]).toEqual([0])
+    expect([...cron.hours]).toEqual([0])
+    expect(cron.restrictsDayOfMonth).toBe(false)
+    expect(cron.restrictsDayOfWeek).toBe(false)
+  })
+
+  test('rejects invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('minute')
+    expect(() => parseCron('*/0 * * * *')).toThrow('invalid step')
+    expect(() => parseCron('0 0 * foo *')).toThrow('month')
+  })
+})
+
+describe('nextCronTime', () => {
+  test('returns the next match strictly after the given time', () => {
+    const hourly = parseCron('0 * * * *')
+
+    expect(nextCronTime(hourly, Date.UTC(2024, 0, 1, 10, 0))).toBe(Date.UTC(2024, 0, 1, 11, 0))
+    expect(nextCronTime(hourly, Date.UTC(2024, 0, 1, 10, 30))).toBe(Date.UTC(2024, 0, 1, 11, 0))
+  })
+
+  test('skips to the next matching weekday', () => {
+    const weekdays = parseCron('0 9 * * mon-fri')
+
+    // Saturday 2024-01-06 -> Monday 2024-01-08
+    expect(nextCronTime(weekdays, Date.UTC(2024, 0, 6, 12))).toBe(Date.UTC(2024, 0, 8, 9))
+  })
+
+  test('matches either day field when both are restricted', () => {
+    const thirteenthOrFriday = parseCron('0 0 13 * fri')
+
+    // Monday 2024-01-01 -> Friday 2024-01-05, then Saturday 2024-01-13
+    expect(nextCronTime(thirteenthOrFriday, Date.UTC(2024, 0, 1))).toBe(Date.UTC(2024, 0, 5))
+    expect(nextCronTime(thirteenthOrFriday, Date.UTC(2024, 0, 12))).toBe(Date.UTC(2024, 0, 13))
+  })
+
+  test('crosses month and year boundaries', () => {
+    const newYear = parseCron('@yearly')
+
+    expect(nextCronTime(newYear, Date.UTC(2024, 5, 1))).toBe(Date.UTC(2025, 0, 1))
+  })
+
+  test('throws for expressions that never match', () => {
+    expect(() => nextCronTime(parseCron('0 0 31 2 *'), Date.UTC(2024, 0, 1))).toThrow(
+      'never matches'
+    )
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Minimal cron expression parser (5 fields, evaluated in UTC)
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  /** Source expression */
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+
+  /** Day of month / day of week restricted (both restricted = either one matches) */
+  restrictsDayOfMonth: boolean
+  restrictsDayOfWeek: boolean
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+]
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const MINUTE_MS = 60_000
+
+/** No match within this many years means the expression never fires (e.g. `0 0 31 2 *`) */
+const MAX_SEARCH_YEARS = 8
+
+/**
+ * Parse a cron expression: `minute hour day-of-month month day-of-week`
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`),
+ * month / day names (`jan`, `mon-fri`), `7` as Sunday and the `@daily`-style macros.
+ *
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim()
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  const parse = (field: string, name: string, min: number, max: number, names?: string[]) => {
+    try {
+      return parseField(field, min, max, names)
+    } catch (error) {
+      const reason = (error as Error).message
+      throw new Error(`Invalid cron expression "${expression}": ${name} ${reason}`)
+    }
+  }
+
+  const daysOfWeek = parse(dayOfWeek, 'day of week', 0, 7, DAY_NAMES)
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    source,
+    minutes: parse(minute, 'minute', 0, 59),
+    hours: parse(hour, 'hour', 0, 23),
+    daysOfMonth: parse(dayOfMonth, 'day of month', 1, 31),
+    months: parse(month, 'month', 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    restrictsDayOfMonth: !dayOfMonth.startsWith('*'),
+    restrictsDayOfWeek: !dayOfWeek.startsWith('*'),
+  }
+}
+
+/**
+ * First time matching the expression strictly after `after` (epoch ms)
+ * @throws Error if the expression never matches
+ */
+export function nextCronTime(cron: CronExpression, after: number): number {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS)
+  const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS
+
+  // Move to the next matching month, day, hour then minute (resetting the smaller fields)
+  while (date.getUTCFullYear() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0)
+      continue
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+      continue
+    }
+    return date.getTime()
+  }
+
+  throw new Error(`Cron expression "${cron.source}" never matches`)
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay())
+
+  // Standard cron: when both are restricted, either one may match
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`has an invalid step "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else {
+      const [from, to] = range.split('-')
+      start = parseValue(from, min, max, names)
+      // `5/15` means from 5 to the maximum
+      end = to !== undefined ? parseValue(to, min, max, names) : stepText ? max : start
+      if (end < start) {
+        throw new Error(`has an invalid range "${part}"`)
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+function parseValue(text: string, min: number, max: number, names?: string[]): number {
+  const nameIndex = names?.indexOf(text.toLowerCase()) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + (names === MONTH_NAMES ? 1 : 0) : Number(text)
+
+  if (text === '' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`has an invalid value "${text}" (expected ${min}-${max})`)
+  }
+  return value
+}
@@ -0,0 +1,84 @@
+import type { MessageEnvelope } from './message-envelope'
+
+/**
+ * A message that exhausted its retries, plus failure metadata
+ */
+export interface DeadLetterEntry<T = unknown> {
+  /** Entry ID inside the DLQ (broker-specific) */
+  id: string
+
+  /** Original message envelope */
+  envelope: MessageEnvelope<T>
+
+  /** Topic the message was originally published to */
+  topic: string
+
+  /** Consumer group that gave up on the message */
+  consumerGroup: string
+
+  /** Consumer that gave up on the message */
+  consumerName?: string
+
+  /** Broker message ID of the original delivery */
+  messageId: string
+
+  /** Number of times the message was delivered before dead-lettering */
+  deliveryCount: number
+
+  /** ISO timestamp when the message was dead-lettered */
+  failedAt: string
+
+  /** Last handler error */
+  error: {
+    message: string
+    stack?: string
+  }
+}
+
+/**
+ * Options for listing DLQ entries
+ */
+export interface DeadLetterListOptions {
+  /** Maximum number of entries to return (default 100) */
+  count?: number
+
+  /** Only return entries originally published to this topic */
+  topic?: string
+
+  /** Return entries after this entry ID (exclusive, for pagination) */
+  after?: string
+}
+
+/**
+ * Port for dead-letter queue inspection and redrive
+ */
+export interface DeadLetterQueue {
+  /**
+   * List dead-lettered messages (oldest first)
+   */
+  list<T = unknown>(options?: DeadLetterListOptions): Promise<DeadLetterEntry<T>[]>
+
+  /**
+   * Get a single dead-lettered message
+   * @returns undefined if not found
+   */
+  get<T = unknown>(id: string): Promise<DeadLetterEntry<T> | undefined>
+
+  /**
+   * Delete a dead-lettered message
+   * @returns true if the entry existed
+   */
+  delete(id: string): Promise<boolean>
+
+  /**
+   * Publish the original envelope back to its topic (attempts reset to 0)
+   * for the consumer group that dead-lettered it, and remove it from the DLQ
+   * @returns the redriven envelope, or undefined if not found
+   */
+  redrive<T = unknown>(id: string): Promise<MessageEnvelope<T> | undefined>
+
+  /**
+   * Number of entries in the DLQ
+   */
+  size(): Promise<number>
+}
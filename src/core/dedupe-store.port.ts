@@ -1,3 +1,11 @@
+/**
+ * Outcome of DedupeStore.tryAcquire()
+ * - acquired: the caller holds the processing lease
+ * - in-progress: another worker holds the lease
+ * - completed: already processed
+ */
+export type DedupeAcquireResult = 'acquired' | 'in-progress' | 'completed'
+
 /**
  * Port for deduplication store (idempotency)
  * Prevents processing the same message multiple times
@@ -23,9 +31,66 @@ export interface DedupeStore {
    */
   remove(eventId: string): Promise<void>
 
+  /**
+   * Atomically take the processing lease of an event (optional, see acquireDedupeLease)
+   * @param eventId Unique event identifier
+   * @param leaseMs How long the lease is held unless completed or released
+   * @returns 'acquired' for the caller that should process it
+   */
+  tryAcquire?(eventId: string, leaseMs: number): Promise<DedupeAcquireResult>
+
+  /**
+   * Mark a leased event as processed (replaces the lease)
+   * @param eventId Unique event identifier
+   * @param ttlSeconds Time-to-live in seconds (default 24h)
+   */
+  complete?(eventId: string, ttlSeconds?: number): Promise<void>
+
+  /**
+   * Give up the lease of a failed event so a redelivery can process it
+   * (no effect once the event is completed)
+   * @param eventId Unique event identifier
+   */
+  release?(eventId: string): Promise<void>
+
   /**
    * Close the store connection
    */
   close(): Promise<void>
 }
 
+/**
+ * Take the processing lease of an event through `store.tryAcquire()`,
+ * or fall back to has() (not atomic) if the store doesn't support leases
+ */
+export async function acquireDedupeLease(
+  store: DedupeStore,
+  eventId: string,
+  leaseMs: number
+): Promise<DedupeAcquireResult> {
+  if (store.tryAcquire) {
+    return store.tryAcquire(eventId, leaseMs)
+  }
+  return (await store.has(eventId)) ? 'completed' : 'acquired'
+}
+
+/**
+ * Mark a leased event as processed through `store.complete()`, or mark()
+ */
+export async function completeDedupeLease(
+  store: DedupeStore,
+  eventId: string,
+  ttlSeconds?: number
+): Promise<void> {
+  if (store.complete) {
+    return store.complete(eventId, ttlSeconds)
+  }
+  return store.mark(eventId, ttlSeconds)
+}
+
+/**
+ * Release the lease of a failed event (no-op if the store doesn't support leases)
+ */
+export async function releaseDedupeLease(store: DedupeStore, eventId: string): Promise<void> {
+  await store.release?.(eventId)
+}
@@ -0,0 +1,107 @@
+/**
+ * Handler and publish error classes, and handler error classification
+ */
+
+import type { MessageEnvelope } from './message-envelope'
+import { ValidationError } from './registry.types'
+
+/**
+ * Throw from a handler when retrying can never succeed (sent straight to the DLQ)
+ *
+ * @example
+ * ```ts
+ * if (!video) throw new NonRetryableError(`Video ${videoId} not found`)
+ * ```
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'NonRetryableError'
+  }
+}
+
+/**
+ * Throw from a handler to retry after a specific delay (e.g. rate limited upstream)
+ * Still counts towards maxRetries
+ */
+export class RetryLaterError extends Error {
+  constructor(
+    public readonly delayMs: number,
+    message = `Retry requested in ${delayMs}ms`,
+    options?: ErrorOptions
+  ) {
+    super(message, options)
+    this.name = 'RetryLaterError'
+  }
+}
+
+/**
+ * Throw from a handler to acknowledge and drop the message (no retry, no DLQ)
+ */
+export class DiscardMessageError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'DiscardMessageError'
+  }
+}
+
+/**
+ * A message of a batch that could not be published
+ */
+export interface PublishBatchFailure<T = unknown> {
+  /** Position of the message in the batch */
+  index: number
+  envelope: MessageEnvelope<T>
+  error: Error
+}
+
+/**
+ * Thrown by publishBatch() when some messages could not be published
+ * (the other envelopes were published)
+ */
+export class PublishBatchError<T = unknown> extends Error {
+  constructor(
+    public readonly failures: PublishBatchFailure<T>[],
+    public readonly envelopes: MessageEnvelope<T>[]
+  ) {
+    super(`${failures.length} of ${envelopes.length} message(s) failed to publish`)
+    this.name = 'PublishBatchError'
+  }
+}
+
+/**
+ * How a handler error should be treated:
+ * - 'retry': apply the retry policy
+ * - 'dlq': send to the DLQ without retrying
+ * - 'drop': acknowledge and discard
+ * - { retryAfterMs }: retry after this delay instead of the policy delay
+ */
+export type ErrorClassification = 'retry' | 'dlq' | 'drop' | { retryAfterMs: number }
+
+/**
+ * Custom error classifier (return undefined to fall back to the default)
+ */
+export type ErrorClassifier<TPayload = any> = (
+  error: Error,
+  ctx: { envelope: MessageEnvelope<TPayload>; attempt: number }
+) => ErrorClassification | undefined
+
+/**
+ * Default classification based on the error classes above
+ * (ValidationError is treated as non-retryable)
+ */
+export function classifyError(error: Error): ErrorClassification {
+  if (error instanceof DiscardMessageError) {
+    return 'drop'
+  }
+
+  if (error instanceof NonRetryableError || error instanceof ValidationError) {
+    return 'dlq'
+  }
+
+  if (error instanceof RetryLaterError) {
+    return { retryAfterMs: error.delayMs }
+  }
+
+  return 'retry'
+}
@@ -0,0 +1,242 @@
+import { describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './registry'
+import { createConsumer } from './consumer-descriptor'
+import { DiscardMessageError, NonRetryableError, RetryLaterError } from './errors'
+import { InMemoryDedupeStore } from '../adapters/memory/memory-dedupe.store'
+import { invokeHandler } from '../testing'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+    messageType: 'video.processing.request',
+  },
+})
+
+const payload = { videoId: 'v1' }
+
+describe('wrapHandler dispositions', () => {
+  test('retries inline until the handler succeeds', async () => {
+    let calls = 0
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      options: { maxRetries: 3 },
+      async handler() {
+        if (++calls < 3) throw new Error('flaky')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload)
+
+    expect(result.outcome).toBe('ack')
+    expect(result.attempts).toBe(3)
+    expect(result.decisions.map((decision) => decision.action)).toEqual(['retry', 'retry'])
+  })
+
+  test('dead-letters once maxRetries is reached', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      options: { maxRetries: 2 },
+      async handler() {
+        throw new Error('down')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload)
+
+    expect(result.outcome).toBe('dlq')
+    expect(result.attempts).toBe(2)
+    expect(result.decisions.at(-1)).toEqual({ action: 'dlq', reason: 'max-retries' })
+  })
+
+  test('counts earlier broker deliveries towards maxRetries', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      options: { maxRetries: 3 },
+      async handler() {
+        throw new Error('down')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload, { deliveryCount: 3 })
+
+    expect(result.outcome).toBe('dlq')
+    expect(result.attempts).toBe(1)
+  })
+
+  test('sends NonRetryableError straight to the DLQ', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      async handler() {
+        throw new NonRetryableError('video not found')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload)
+
+    expect(result.outcome).toBe('dlq')
+    expect(result.attempts).toBe(1)
+    expect(result.decisions).toEqual([{ action: 'dlq', reason: 'non-retryable' }])
+  })
+
+  test('drops messages on DiscardMessageError', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      async handler() {
+        throw new DiscardMessageError('obsolete')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload)
+
+    expect(result.outcome).toBe('drop')
+    expect(result.decisions).toEqual([{ action: 'drop', reason: 'discarded' }])
+  })
+
+  test('lets the retry policy drop the message', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      options: { retry: (attempt) => (attempt < 2 ? 10 : 'drop') },
+      async handler() {
+        throw new Error('down')
+      },
+    })
+
+    const result = await invokeHandler(consumer, payload)
+
+    expect(result.outcome).toBe('drop')
+    expect(result.decisions).toEqual([
+      { action: 'retry', delayMs: 0 },
+      { action: 'drop', reason: 'retry-policy' },
+    ])
+  })
+
+  test('returns a broker retry with the policy delay in broker retry mode', async () => {
+    const consumer = createConsumer(registry, {
+      topic: 'video.jobs',
+      group: 'workers',
+      name: 'worker-1',
+      options: { retryMode: 'broker', retry: { type: 'linear', delayMs: 250 } },
+      async handler() {
+        throw new RetryLaterError(1000)
+      },
+    })
+
+    const retryLater = await invokeHandler(consumer, payload, { instantRetries: false })
+    expect(retryLater.disposition).toEqual({ action: 'retry', delayMs: 1000, attempts: 1 })
+
+    const linear = createConsumer(registry, {
+      ...consumer,
+      async handler() {
+        throw new Error('down')
+      },
+    })
+    const secondAttempt = await invokeHandler(linear, payload, {
+      instantRetries: false,
+      meta: { attempts: 1 },
+    })
+    expect(secondAttempt.disposition).toEqual({ action: 'retry', delayMs: 500, attempts: 2 })
+  })
+
+  test('rejects invalid payloads unless told to skip or dead-letter them', async () => {
+    const options = { topic: 'video.jobs', group: 'workers', name: 'worker-1' } as const
+    const handler = async () => {}
+    const invalid = { videoId: 42 } as any
+
+    const strict = createConsumer(registry, { ...options, handler })
+    await expect(invokeHandler(strict, invalid)).rejects.toThrow('Validation failed')
+
+    const skipping = createConsumer(registry, {
+      ...options,
+      options: { skipInvalidPayload: true },
+      handler,
+    })
+    expect((await invokeHandler(skipping, invalid)).outcome).toBe('ack')
+
+    const deadLettering = createConsumer(registry, {
+      ...options,
+      options: { deadLetterInvalidPayload: true },
+      handler,
+    })
+    expect((await invokeHandler(deadLettering, invalid)).outcome).toBe('dlq')
+  })
+})
+
+describe('wrapHandler dedupe leases', () => {
+  const idempotent = (group: string, handler: () => Promise<void>) =>
+    createConsumer(registry, {
+      topic: 'video.jobs',
+      group,
+      name: `${group}-1`,
+      options: {
+        idempotency: true,
+        idempotencyKey: (envelope) => envelope.payload.videoId,
+        dedupeLeaseMs: 5000,
+      },
+      handler,
+    })
+
+  test('skips a duplicate once the first one completed', async () => {
+    const dedupe = new InMemoryDedupeStore()
+    let calls = 0
+    const consumer = idempotent('workers', async () => {
+      calls++
+    })
+
+    await invokeHandler(consumer, payload, { dedupe })
+    const duplicate = await invokeHandler(consumer, payload, { dedupe })
+
+    expect(duplicate.outcome).toBe('ack')
+    expect(calls).toBe(1)
+    expect(await dedupe.has('video.jobs:workers:v1')).toBe(true)
+  })
+
+  test('re-delivers a duplicate after the lease while the first one is in progress', async () => {
+    const dedupe = new InMemoryDedupeStore()
+    let finish!: () => void
+    const consumer = idempotent('workers', () => new Promise<void>((resolve) => (finish = resolve)))
+
+    const first = invokeHandler(consumer, payload, { dedupe })
+    await Bun.sleep(10)
+    const duplicate = await invokeHandler(consumer, payload, { dedupe })
+
+    expect(duplicate.disposition).toEqual({ action: 'retry', delayMs: 5000, attempts: 0 })
+
+    finish()
+    expect((await first).outcome).toBe('ack')
+  })
+
+  test('releases the lease when the handler fails', async () => {
+    const dedupe = new InMemoryDedupeStore()
+    const failing = idempotent('workers', async () => {
+      throw new NonRetryableError('broken')
+    })
+
+    expect((await invokeHandler(failing, payload, { dedupe })).outcome).toBe('dlq')
+    expect(await dedupe.tryAcquire('video.jobs:workers:v1', 1000)).toBe('acquired')
+  })
+
+  test('scopes leases by consumer group', async () => {
+    const dedupe = new InMemoryDedupeStore()
+    const calls: string[] = []
+
+    for (const group of ['thumbnails', 'transcoder']) {
+      const consumer = idempotent(group, async () => void calls.push(group))
+      await invokeHandler(consumer, payload, { dedupe })
+    }
+
+    expect(calls).toEqual(['thumbnails', 'transcoder'])
+  })
+})
@@ -0,0 +1,460 @@
+/**
+ * Consumer handler wrapper: validation, idempotency, retries, DLQ decisions and hooks
+ * (shared by the messagingConsumers plugin and the testing toolkit)
+ */
+
+import type {
+  ConsumerOptions as SubscribeOptions,
+  MessageDelivery,
+  MessageDisposition,
+} from './message-consumer.port'
+import type { DedupeStore } from './dedupe-store.port'
+import { acquireDedupeLease, completeDedupeLease, releaseDedupeLease } from './dedupe-store.port'
+import type { ConsumerDescriptor, HandlerContext } from './consumer-descriptor'
+import { DEFAULT_DEDUPE_LEASE_MS, DEFAULT_MAX_RETRIES } from './consumer-descriptor'
+import type { TopicRegistry, TopicName } from './registry.types'
+import { validateTopicPayload } from './registry'
+import type { FailureDecision } from './retry-policy'
+import { decideOnFailure, getRetryPolicy } from './retry-policy'
+import type { MessageEnvelope } from './message-envelope'
+import type { PublishMeta } from './publisher-helper'
+import { sleep } from './concurrency'
+import type { MessagingMetrics } from './metrics'
+import type { MessagingTracer, SpanAttributes, TraceSpan } from './tracing'
+import { defaultTracer, getTraceContext } from './tracing'
+
+/**
+ * Consumer hooks for observability
+ */
+export interface ConsumerHooks<TRegistry extends TopicRegistry<any>> {
+  onMessage?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>
+  ) => Promise<void> | void
+
+  onError?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>,
+    error: Error,
+    attempt: number,
+    decision: FailureDecision
+  ) => Promise<void> | void
+
+  onRetry?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>,
+    attempt: number
+  ) => Promise<void> | void
+
+  onDLQ?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>,
+    error: Error,
+    decision: FailureDecision
+  ) => Promise<void> | void
+
+  onDrop?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>,
+    error: Error,
+    decision: FailureDecision
+  ) => Promise<void> | void
+
+  onAck?: <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    envelope: MessageEnvelope<any>
+  ) => Promise<void> | void
+}
+
+/**
+ * Dependencies of a wrapped handler
+ */
+export interface WrapHandlerOptions<TRegistry extends TopicRegistry<any>, TMessaging = any> {
+  /** Observability hooks */
+  hooks?: ConsumerHooks<TRegistry>
+
+  /** Dedupe store (used when the descriptor enables idempotency) */
+  dedupe?: DedupeStore
+
+  /**
+   * Messaging client injected into the handler context
+   * (scoped to each message when it supports `withContext()`)
+   */
+  messaging?: TMessaging
+
+  /** Built-in metrics (handler duration and outcomes) */
+  metrics?: MessagingMetrics
+
+  /** Tracer for consumer spans (default: OpenTelemetry if installed, no-op otherwise) */
+  tracer?: MessagingTracer
+}
+
+/**
+ * Wrapped handler, ready to pass to MessageConsumer.subscribe()
+ */
+export type WrappedHandler = (
+  envelope: MessageEnvelope<any>,
+  delivery?: MessageDelivery
+) => Promise<MessageDisposition | void>
+
+/**
+ * Wrap a consumer descriptor's handler with validation, hooks, idempotency and retries
+ * (run inside a consumer span continuing the envelope's trace context)
+ */
+export function wrapHandler<
+  TRegistry extends TopicRegistry<any>,
+  TTopic extends TopicName<TRegistry>,
+  TMessaging = any
+>(
+  descriptor: ConsumerDescriptor<TRegistry, TTopic>,
+  wrapOptions: WrapHandlerOptions<TRegistry, TMessaging> = {}
+): WrappedHandler {
+  const { hooks, dedupe, messaging, metrics, tracer = defaultTracer } = wrapOptions
+  const { topic, group, handler, options = {}, __registry: registry } = descriptor
+
+  const handle = async (
+    envelope: MessageEnvelope<any>,
+    delivery: MessageDelivery | undefined,
+    span: TraceSpan
+  ): Promise<MessageDisposition | void> => {
+    // Consumer filter: acknowledge messages this consumer isn't interested in
+    if (!matchesFilter(options.filter, envelope)) {
+      metrics?.recordOutcome(topic, group, 'filtered')
+      return
+    }
+
+    // Hook: onMessage
+    if (hooks?.onMessage) {
+      await hooks.onMessage(topic, envelope)
+    }
+
+    if (!options.idempotency || !dedupe) {
+      return processMessage(envelope, delivery, span)
+    }
+
+    // Idempotency: take the processing lease of the event (or of its idempotency key),
+    // per topic and group so every group of a fan-out handles the message once
+    const dedupeKey = `${topic}:${group}:${getIdempotencyKey(options.idempotencyKey, envelope)}`
+    const leaseMs = options.dedupeLeaseMs ?? DEFAULT_DEDUPE_LEASE_MS
+    const lease = await acquireDedupeLease(dedupe, dedupeKey, leaseMs)
+
+    if (lease === 'completed') {
+      console.log(`[Consumer] Duplicate message skipped: ${envelope.eventId} (key: ${dedupeKey})`)
+      metrics?.recordOutcome(topic, group, 'dedupe_skip')
+
+      // Hook: onAck (already processed)
+      if (hooks?.onAck) {
+        await hooks.onAck(topic, envelope)
+      }
+
+      return
+    }
+
+    if (lease === 'in-progress') {
+      // Another worker is on it: check again once its lease has expired
+      console.log(
+        `[Consumer] ${dedupeKey} is being processed elsewhere, re-delivering in ${leaseMs}ms`
+      )
+      metrics?.recordOutcome(topic, group, 'dedupe_in_progress')
+      return { action: 'retry', delayMs: leaseMs, attempts: envelope.attempts ?? 0 }
+    }
+
+    // Completed once the handler succeeds; released on any other outcome so a redelivery can run
+    let completed = false
+    try {
+      return await processMessage(envelope, delivery, span, async () => {
+        await completeDedupeLease(dedupe, dedupeKey, options.dedupeTtl)
+        completed = true
+      })
+    } finally {
+      if (!completed) {
+        await releaseDedupeLease(dedupe, dedupeKey).catch((error) =>
+          console.error(`[Consumer] Failed to release lease of ${dedupeKey}:`, error)
+        )
+      }
+    }
+  }
+
+  /**
+   * Validate and run the handler with retries
+   * @param onHandled Called once the handler succeeded (before onAck)
+   */
+  const processMessage = async (
+    envelope: MessageEnvelope<any>,
+    delivery: MessageDelivery | undefined,
+    span: TraceSpan,
+    onHandled?: () => Promise<void>
+  ): Promise<MessageDisposition | void> => {
+    // Validate payload
+    try {
+      validateTopicPayload(registry, topic, envelope.payload)
+    } catch (error) {
+      if (options.skipInvalidPayload) {
+        console.error(`[Consumer] Invalid payload, skipping:`, error)
+        metrics?.recordOutcome(topic, group, 'drop')
+        
+        // Hook: onAck (skipped)
+        if (hooks?.onAck) {
+          await hooks.onAck(topic, envelope)
+        }
+        
+        return
+      }
+
+      if (!options.deadLetterInvalidPayload) {
+        span.recordError(error as Error)
+        throw error
+      }
+
+      // Invalid payloads never become valid: dead-letter without retrying
+      const decision: FailureDecision = { action: 'dlq', reason: 'non-retryable' }
+      console.error(`[Consumer] Invalid payload, sending ${envelope.eventId} to DLQ:`, error)
+      span.recordError(error as Error)
+      metrics?.recordOutcome(topic, group, 'dlq')
+
+      if (hooks?.onError) {
+        await hooks.onError(topic, envelope, error as Error, envelope.attempts ?? 0, decision)
+      }
+      if (hooks?.onDLQ) {
+        await hooks.onDLQ(topic, envelope, error as Error, decision)
+      }
+
+      return { action: 'dlq', error: error as Error }
+    }
+
+    // Execute handler with retry logic
+    // Attempts made before this delivery: persisted on the envelope (e.g. rescheduled
+    // retries) plus one per earlier broker delivery (failed or crashed worker)
+    const deliveryCount = delivery?.deliveryCount ?? 1
+    const signal = delivery?.signal
+    let attempt = (envelope.attempts ?? 0) + deliveryCount
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+    const retryPolicy = getRetryPolicy(options)
+    const scopedMessaging = scopeMessaging(messaging, envelope)
+
+    while (true) {
+      const startedAt = Date.now()
+
+      try {
+        // Update envelope attempts for this iteration (for hooks)
+        const envelopeWithAttempt = { ...envelope, attempts: attempt }
+
+        // Detect handler signature and call appropriately
+        const handlerContext: HandlerContext<any, TMessaging> = {
+          envelope: envelopeWithAttempt,
+          attempt,
+          deliveryCount,
+          signal,
+          messaging: scopedMessaging,
+        }
+
+        // Try to detect signature by checking handler.length or just calling with context
+        // If handler expects single param (legacy), pass envelope; otherwise pass context
+        if (handler.length === 1) {
+          // Legacy signature: handler(envelope)
+          await (handler as any)(envelopeWithAttempt)
+        } else {
+          // Enhanced signature: handler({ envelope, attempt, messaging })
+          await (handler as any)(handlerContext)
+        }
+        metrics?.recordHandler(topic, group, Date.now() - startedAt)
+
+        // Mark as processed
+        if (onHandled) {
+          await onHandled()
+        }
+
+        metrics?.recordOutcome(topic, group, 'ack')
+
+        // Hook: onAck
+        if (hooks?.onAck) {
+          await hooks.onAck(topic, envelopeWithAttempt)
+        }
+
+        return
+      } catch (error) {
+        // Shutting down: leave the message un-ACKed for another consumer to reclaim
+        if (signal?.aborted) {
+          throw error
+        }
+
+        metrics?.recordHandler(topic, group, Date.now() - startedAt, true)
+
+        console.error(`[Consumer] Handler failed (attempt ${attempt}/${maxRetries}):`, error)
+        span.recordError(error as Error)
+
+        const decision = decideOnFailure({
+          error: error as Error,
+          envelope,
+          attempt,
+          maxRetries,
+          policy: retryPolicy,
+          classifyError: options.classifyError,
+        })
+        const failedEnvelope = { ...envelope, attempts: attempt }
+
+        // Hook: onError (with current attempt in envelope)
+        if (hooks?.onError) {
+          await hooks.onError(topic, failedEnvelope, error as Error, attempt, decision)
+        }
+
+        if (decision.action === 'drop') {
+          console.warn(`[Consumer] Dropping message ${envelope.eventId} (${decision.reason})`)
+          metrics?.recordOutcome(topic, group, 'drop')
+
+          // Hook: onDrop
+          if (hooks?.onDrop) {
+            await hooks.onDrop(topic, failedEnvelope, error as Error, decision)
+          }
+
+          return { action: 'drop' }
+        }
+
+        if (decision.action === 'retry') {
+          metrics?.recordOutcome(topic, group, 'retry')
+
+          // Hook: onRetry
+          if (hooks?.onRetry) {
+            await hooks.onRetry(topic, failedEnvelope, attempt)
+          }
+
+          // Broker-side retry: ack now, the adapter re-delivers after the delay
+          if (options.retryMode === 'broker') {
+            return { action: 'retry', delayMs: decision.delayMs, attempts: attempt }
+          }
+
+          // Inline retry: wait in-process before the next attempt (cut short on shutdown)
+          if (decision.delayMs > 0) {
+            await sleep(decision.delayMs, signal)
+          }
+          if (signal?.aborted) {
+            throw error
+          }
+
+          attempt++
+        } else {
+          // Max retries exceeded or non-retryable error, send to DLQ
+          console.error(`[Consumer] Sending ${envelope.eventId} to DLQ (${decision.reason})`)
+          metrics?.recordOutcome(topic, group, 'dlq')
+
+          // Hook: onDLQ
+          if (hooks?.onDLQ) {
+            await hooks.onDLQ(topic, failedEnvelope, error as Error, decision)
+          }
+
+          // Ask the adapter to dead-letter the message (no further redeliveries)
+          return { action: 'dlq', error: error as Error }
+        }
+      }
+    }
+  }
+
+  return (envelope, delivery) =>
+    tracer.traceConsume(
+      topic,
+      getTraceContext(envelope),
+      getConsumeAttributes(descriptor, envelope, delivery),
+      (span) => handle(envelope, delivery, span)
+    )
+}
+
+/**
+ * Apply a consumer filter (a filter that throws lets the message through)
+ */
+function matchesFilter(
+  filter: ((envelope: MessageEnvelope<any>) => boolean) | undefined,
+  envelope: MessageEnvelope<any>
+): boolean {
+  if (!filter) {
+    return true
+  }
+
+  try {
+    return filter(envelope)
+  } catch (error) {
+    console.warn(`[Consumer] filter failed, handling ${envelope.eventId} anyway:`, error)
+    return true
+  }
+}
+
+/**
+ * Dedupe key of a message: the consumer's idempotency key, or the eventId
+ * (a key function that throws or returns nothing falls back to the eventId)
+ */
+function getIdempotencyKey(
+  idempotencyKey: ((envelope: MessageEnvelope<any>) => string | undefined) | undefined,
+  envelope: MessageEnvelope<any>
+): string {
+  if (!idempotencyKey) {
+    return envelope.eventId
+  }
+
+  try {
+    return idempotencyKey(envelope) || envelope.eventId
+  } catch (error) {
+    console.warn(`[Consumer] idempotencyKey failed, using eventId ${envelope.eventId}:`, error)
+    return envelope.eventId
+  }
+}
+
+/**
+ * Derive a messaging client that publishes as a consequence of `envelope`:
+ * same correlation (the parent's correlationId, or its eventId for a new flow) and jobId,
+ * causationId = the parent's eventId
+ */
+function scopeMessaging<TMessaging>(
+  messaging: TMessaging,
+  envelope: MessageEnvelope<any>
+): TMessaging {
+  const client = messaging as { withContext?: (meta: PublishMeta) => TMessaging } | undefined
+
+  if (typeof client?.withContext !== 'function') {
+    return messaging
+  }
+
+  return client.withContext({
+    jobId: envelope.jobId,
+    correlationId: envelope.correlationId ?? envelope.eventId,
+    causationId: envelope.eventId,
+  })
+}
+
+/**
+ * Consumer span attributes (OpenTelemetry messaging semantic conventions)
+ */
+function getConsumeAttributes(
+  descriptor: ConsumerDescriptor<any, any>,
+  envelope: MessageEnvelope<any>,
+  delivery?: MessageDelivery
+): SpanAttributes {
+  return {
+    'messaging.operation.type': 'process',
+    'messaging.destination.name': descriptor.topic,
+    'messaging.consumer.group.name': descriptor.group,
+    'messaging.message.id': envelope.eventId,
+    'messaging.message.conversation_id': envelope.correlationId,
+    'messaging.message.delivery_count': delivery?.deliveryCount,
+  }
+}
+
+/**
+ * Map descriptor options to adapter subscribe options
+ */
+export function getSubscribeOptions(
+  descriptor: ConsumerDescriptor<any, any>
+): SubscribeOptions {
+  const { group, name, options = {} } = descriptor
+
+  return {
+    consumerGroup: group,
+    consumerName: name,
+    maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+    blockMs: options.blockMs,
+    concurrency: options.concurrency,
+    batchSize: options.batchSize,
+    orderingKey: options.orderingKey,
+    claimMinIdleMs: options.claimMinIdleMs,
+    claimIntervalMs: options.claimIntervalMs,
+    startId: options.startId,
+  }
+}
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './registry'
+import { createConsumer } from './consumer-descriptor'
+import { ConsumerManager } from './consumer-manager'
+import { MessagingHealth } from './health-check'
+import { InMemoryBroker, InMemoryBus, InMemoryConsumer } from '../adapters/memory'
+import { createMessagingClient } from '../plugin-client'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+  },
+})
+
+let manager: ConsumerManager<typeof registry> | undefined
+
+afterEach(async () => {
+  await manager?.stopAll()
+  manager = undefined
+})
+
+describe('MessagingHealth liveness', () => {
+  test('reports a loop waiting for a long handler as live', async () => {
+    const broker = new InMemoryBroker()
+    const consumer = new InMemoryConsumer(broker)
+    const messaging = createMessagingClient({ registry, bus: new InMemoryBus(broker) })
+
+    manager = new ConsumerManager({ resolveConsumer: () => consumer })
+    manager.register(
+      createConsumer(registry, {
+        topic: 'video.jobs',
+        group: 'workers',
+        name: 'worker-1',
+        options: { concurrency: 1, batchSize: 1 },
+        async handler() {
+          await Bun.sleep(300)
+        },
+      })
+    )
+    await manager.start()
+
+    for (const videoId of ['v1', 'v2', 'v3']) {
+      await messaging.publish('video.jobs', { videoId })
+    }
+    await Bun.sleep(150)
+
+    // The handler outlives maxPollAgeMs while the next messages fill the backlog
+    const health = new MessagingHealth({ consumers: manager, thresholds: { maxPollAgeMs: 50 } })
+    const report = await health.liveness()
+
+    expect(manager.list()[0].stats).toMatchObject({ inFlight: 1, waitingForHandlers: true })
+    expect(report.status).toBe('pass')
+    expect(report.consumers[0].reasons).toEqual([])
+  })
+})
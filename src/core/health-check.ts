@@ -0,0 +1,314 @@
+/**
+ * Health and readiness checks of brokers and consumer loops
+ */
+
+import type { BrokerInspector, ConsumerGroupInfo } from './broker-inspector.port'
+import type { ConsumerInfo, ConsumerManager, ManagedConsumerStatus } from './consumer-manager'
+
+/**
+ * Result of a check ('fail' = probe should return 503)
+ */
+export type HealthStatus = 'pass' | 'fail'
+
+/**
+ * Anything that can check broker connectivity (bus or consumer adapters)
+ */
+export interface Pingable {
+  ping?(): Promise<void>
+}
+
+/**
+ * Limits used to decide liveness and readiness
+ */
+export interface HealthThresholds {
+  /**
+   * A running consumer loop with no completed read for longer is stuck, unless it is
+   * waiting for its running handlers (ms, default: 60000)
+   */
+  maxPollAgeMs?: number
+
+  /** Consecutive loop errors after which a consumer is crash-looping (default: 5) */
+  maxConsecutiveErrors?: number
+
+  /** Not ready when a consumer group has more undelivered messages (requires an inspector) */
+  maxLag?: number
+
+  /** Not ready when a consumer group has more unacknowledged messages (requires an inspector) */
+  maxPending?: number
+}
+
+/**
+ * Health check configuration
+ */
+export interface MessagingHealthOptions {
+  /** Consumers to check */
+  consumers?: ConsumerManager<any>
+
+  /** Brokers to ping, by name (default: the consumer manager's adapters) */
+  brokers?: Record<string, Pingable>
+
+  /** Broker inspector for lag and pending thresholds */
+  inspector?: BrokerInspector
+
+  /** Liveness and readiness thresholds */
+  thresholds?: HealthThresholds
+
+  /** How long a ping may take before the broker is reported down (ms, default: 2000) */
+  pingTimeoutMs?: number
+}
+
+/**
+ * Connectivity of one broker
+ */
+export interface BrokerHealth {
+  name: string
+  status: HealthStatus
+  latencyMs: number
+  error?: string
+}
+
+/**
+ * Liveness (and readiness) of one consumer
+ */
+export interface ConsumerHealth {
+  id: string
+  topic: string
+  group: string
+  status: HealthStatus
+
+  /** Lifecycle state of the consumer */
+  state: ManagedConsumerStatus
+
+  lastPollAt?: string
+  lastMessageAt?: string
+  lastError?: { message: string; at: string }
+  consecutiveErrors: number
+
+  /** Consume loop keeps failing (consecutiveErrors >= maxConsecutiveErrors) */
+  crashLooping: boolean
+
+  /** Broker-side counters of the consumer group (readiness with an inspector) */
+  pending?: number
+  lag?: number
+
+  /** Why the check failed */
+  reasons: string[]
+}
+
+/**
+ * Structured health report
+ */
+export interface HealthReport {
+  status: HealthStatus
+  checkedAt: string
+  brokers: BrokerHealth[]
+  consumers: ConsumerHealth[]
+}
+
+const DEFAULT_MAX_POLL_AGE_MS = 60000
+const DEFAULT_MAX_CONSECUTIVE_ERRORS = 5
+const DEFAULT_PING_TIMEOUT_MS = 2000
+
+/**
+ * Computes liveness and readiness reports
+ *
+ * - Liveness: every running consumer loop has read from the broker recently (or is waiting
+ *   for its running handlers) and is not crash-looping
+ * - Readiness: liveness, every broker answers a ping, every consumer is started,
+ *   and consumer groups stay under the lag / pending thresholds
+ *
+ * Paused and stopped consumers are reported but don't fail the checks.
+ */
+export class MessagingHealth {
+  constructor(private readonly options: MessagingHealthOptions = {}) {}
+
+  /**
+   * Consumer loop liveness only (no broker round trip)
+   * @param consumers Consumer manager to check (default: the configured one)
+   */
+  async liveness(consumers = this.options.consumers): Promise<HealthReport> {
+    const consumerHealth = (consumers?.list() ?? []).map((info) => this.checkLoop(info))
+    return this.toReport([], consumerHealth)
+  }
+
+  /**
+   * Broker connectivity, consumer loop liveness and lag / pending thresholds
+   * @param consumers Consumer manager to check (default: the configured one)
+   */
+  async readiness(consumers = this.options.consumers): Promise<HealthReport> {
+    const infos = consumers?.list() ?? []
+    const brokers = this.options.brokers ?? this.getAdapterBrokers(consumers)
+
+    const [brokerHealth, groups] = await Promise.all([
+      Promise.all(Object.entries(brokers).map(([name, broker]) => this.ping(name, broker))),
+      this.inspectGroups(infos),
+    ])
+
+    const consumerHealth = infos.map((info) => {
+      const health = this.checkLoop(info)
+
+      if (info.status === 'registered') {
+        this.fail(health, 'not started')
+      }
+
+      const group = groups.get(`${info.topic}:${info.group}`)
+      if (group instanceof Error) {
+        this.fail(health, `inspection failed: ${group.message}`)
+      } else if (group) {
+        this.checkGroup(health, group)
+      }
+
+      return health
+    })
+
+    return this.toReport(brokerHealth, consumerHealth)
+  }
+
+  private checkLoop(info: ConsumerInfo): ConsumerHealth {
+    const {
+      maxPollAgeMs = DEFAULT_MAX_POLL_AGE_MS,
+      maxConsecutiveErrors = DEFAULT_MAX_CONSECUTIVE_ERRORS,
+    } = this.options.thresholds ?? {}
+    const { stats } = info
+    const consecutiveErrors = stats?.consecutiveErrors ?? 0
+
+    const health: ConsumerHealth = {
+      id: info.id,
+      topic: info.topic,
+      group: info.group,
+      status: 'pass',
+      state: info.status,
+      lastPollAt: stats?.lastPollAt,
+      lastMessageAt: stats?.lastMessageAt,
+      lastError: stats?.lastError,
+      consecutiveErrors,
+      crashLooping: consecutiveErrors >= maxConsecutiveErrors,
+      reasons: [],
+    }
+
+    // Only a running loop is expected to poll
+    if (!stats || info.status !== 'running') {
+      return health
+    }
+
+    if (health.crashLooping) {
+      this.fail(health, `crash loop: ${consecutiveErrors} consecutive loop errors`)
+    }
+
+    // Busy handlers fill the backlog: the loop doesn't read, but isn't stuck either
+    const busy = stats.waitingForHandlers && stats.inFlight > 0
+    const pollAgeMs = Date.now() - Date.parse(stats.lastPollAt ?? stats.startedAt)
+    if (!busy && pollAgeMs > maxPollAgeMs) {
+      this.fail(health, `no read from the broker for ${pollAgeMs}ms`)
+    }
+
+    return health
+  }
+
+  private checkGroup(health: ConsumerHealth, group: ConsumerGroupInfo): void {
+    const { maxLag, maxPending } = this.options.thresholds ?? {}
+
+    health.pending = group.pending
+    health.lag = group.lag
+
+    if (maxPending !== undefined && group.pending > maxPending) {
+      this.fail(health, `pending ${group.pending} > ${maxPending}`)
+    }
+    if (maxLag !== undefined && group.lag !== undefined && group.lag > maxLag) {
+      this.fail(health, `lag ${group.lag} > ${maxLag}`)
+    }
+  }
+
+  /**
+   * Consumer group info by `topic:group` (an Error if the topic couldn't be inspected)
+   */
+  private async inspectGroups(
+    infos: ConsumerInfo[]
+  ): Promise<Map<string, ConsumerGroupInfo | Error>> {
+    const groups = new Map<string, ConsumerGroupInfo | Error>()
+    const { inspector } = this.options
+    if (!inspector) {
+      return groups
+    }
+
+    const topics = [...new Set(infos.map((info) => info.topic))]
+    await Promise.all(
+      topics.map(async (topic) => {
+        try {
+          const info = await inspector.getTopicInfo(topic)
+          for (const group of info.groups) {
+            groups.set(`${topic}:${group.name}`, group)
+          }
+        } catch (error) {
+          const failure = error instanceof Error ? error : new Error(String(error))
+          for (const consumer of infos.filter((info) => info.topic === topic)) {
+            groups.set(`${topic}:${consumer.group}`, failure)
+          }
+        }
+      })
+    )
+
+    return groups
+  }
+
+  private async ping(name: string, broker: Pingable): Promise<BrokerHealth> {
+    const startedAt = Date.now()
+    const timeoutMs = this.options.pingTimeoutMs ?? DEFAULT_PING_TIMEOUT_MS
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      await Promise.race([
+        broker.ping?.(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`ping timed out after ${timeoutMs}ms`)), timeoutMs)
+        }),
+      ])
+      return { name, status: 'pass', latencyMs: Date.now() - startedAt }
+    } catch (error) {
+      return {
+        name,
+        status: 'fail',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Adapters of the consumer manager that support ping(), named after their class
+   */
+  private getAdapterBrokers(consumers: ConsumerManager<any> | undefined): Record<string, Pingable> {
+    const brokers: Record<string, Pingable> = {}
+
+    for (const adapter of consumers?.adapters() ?? []) {
+      if (!adapter.ping) continue
+
+      const baseName = adapter.constructor.name
+      let name = baseName
+      for (let index = 2; name in brokers; index++) {
+        name = `${baseName}#${index}`
+      }
+      brokers[name] = adapter
+    }
+
+    return brokers
+  }
+
+  private fail(health: ConsumerHealth, reason: string): void {
+    health.status = 'fail'
+    health.reasons.push(reason)
+  }
+
+  private toReport(brokers: BrokerHealth[], consumers: ConsumerHealth[]): HealthReport {
+    const failed = [...brokers, ...consumers].some((check) => check.status === 'fail')
+
+    return {
+      status: failed ? 'fail' : 'pass',
+      checkedAt: new Date().toISOString(),
+      brokers,
+      consumers,
+    }
+  }
+}
@@ -9,13 +9,68 @@ export interface MessageBus {
   /**
    * Publish a message to a topic
    * Fire-and-forget, no blocking
+   * @param options Delayed delivery (`delayMs` / `deliverAt`), if supported by the bus
    */
-  publish<T>(topic: TopicName | string, envelope: MessageEnvelope<T>): Promise<void>
+  publish<T>(
+    topic: TopicName | string,
+    envelope: MessageEnvelope<T>,
+    options?: PublishOptions
+  ): Promise<void>
+
+  /**
+   * Publish several messages to a topic in one round trip (optional, see publishEnvelopes)
+   * @returns One entry per envelope, in order: undefined if published, the error otherwise
+   */
+  publishBatch?<T>(
+    topic: TopicName | string,
+    envelopes: MessageEnvelope<T>[]
+  ): Promise<Array<Error | undefined>>
+
+  /**
+   * Cancel a delayed message before it is delivered (optional)
+   * @returns true if a scheduled message was cancelled
+   */
+  cancelScheduled?(eventId: string): Promise<boolean>
 
   /**
    * Graceful shutdown
    */
   close(): Promise<void>
+
+  /**
+   * Check broker connectivity (optional, used by health checks)
+   * @throws If the broker can't be reached
+   */
+  ping?(): Promise<void>
+}
+
+/**
+ * Publish a batch through `bus.publishBatch()`, or one by one if the bus doesn't support it
+ * (delayed batches are always scheduled one by one)
+ * @returns One entry per envelope, in order: undefined if published, the error otherwise
+ */
+export async function publishEnvelopes<T>(
+  bus: MessageBus,
+  topic: TopicName | string,
+  envelopes: MessageEnvelope<T>[],
+  options: PublishOptions = {}
+): Promise<Array<Error | undefined>> {
+  const delayed = resolveDeliverAt(options) !== undefined
+
+  if (bus.publishBatch && !delayed) {
+    return bus.publishBatch(topic, envelopes)
+  }
+
+  const results: Array<Error | undefined> = []
+  for (const envelope of envelopes) {
+    try {
+      await bus.publish(topic, envelope, options)
+      results.push(undefined)
+    } catch (error) {
+      results.push(error as Error)
+    }
+  }
+  return results
 }
 
 /**
@@ -25,7 +80,30 @@ export interface PublishOptions {
   /** Delay message delivery by N milliseconds */
   delayMs?: number
 
+  /** Deliver at this time (Date or epoch ms; takes precedence over delayMs) */
+  deliverAt?: Date | number
+
   /** Priority (if supported by transport) */
   priority?: number
 }
 
+/**
+ * Delivery time of a delayed publish (epoch ms), or undefined to deliver right away
+ */
+export function resolveDeliverAt(
+  options: PublishOptions = {},
+  now = Date.now()
+): number | undefined {
+  let deliverAt: number | undefined
+
+  if (options.deliverAt !== undefined) {
+    deliverAt = new Date(options.deliverAt).getTime()
+    if (Number.isNaN(deliverAt)) {
+      throw new RangeError(`Invalid deliverAt: ${options.deliverAt}`)
+    }
+  } else if (options.delayMs) {
+    deliverAt = now + options.delayMs
+  }
+
+  return deliverAt !== undefined && deliverAt > now ? deliverAt : undefined
+}
@@ -1,12 +1,51 @@
 import type { MessageEnvelope } from './message-envelope'
 import type { TopicName } from './topics'
 
+/**
+ * Broker-side delivery information for a message
+ */
+export interface MessageDelivery {
+  /** Broker message ID */
+  messageId: string
+
+  /** Number of times the broker has delivered this message (1 = first delivery) */
+  deliveryCount: number
+
+  /** Aborted when the consumer is closing and the drain timeout has passed */
+  signal?: AbortSignal
+}
+
+/**
+ * What the adapter should do with a message after the handler returns
+ * (returning nothing is the same as `{ action: 'ack' }`)
+ */
+export type MessageDisposition =
+  | { action: 'ack' }
+  | { action: 'drop' }
+  | { action: 'dlq'; error: Error }
+  | {
+      /** Acknowledge now and deliver again after `delayMs` (broker-side retry) */
+      action: 'retry'
+      delayMs: number
+      /** Attempts made so far, persisted on the re-scheduled envelope */
+      attempts: number
+    }
+
 /**
  * Message handler function
+ * Throwing leaves the message for redelivery (until the adapter's maxRetries).
+ * `delivery` is optional so adapters that don't track deliveries can omit it.
  */
 export type MessageHandler<T = unknown> = (
-  envelope: MessageEnvelope<T>
-) => Promise<void>
+  envelope: MessageEnvelope<T>,
+  delivery?: MessageDelivery
+) => Promise<void | MessageDisposition>
+
+/**
+ * Derives the ordering key of a message: messages sharing a key are processed
+ * one at a time, in delivery order (undefined = no ordering constraint)
+ */
+export type OrderingKey<T = any> = (envelope: MessageEnvelope<T>) => string | undefined
 
 /**
  * Consumer options
@@ -24,10 +63,116 @@ export interface ConsumerOptions {
   /** Block time when waiting for messages (ms) */
   blockMs?: number
 
+  /** Maximum number of handlers running at the same time (default: 1) */
+  concurrency?: number
+
+  /** Maximum number of messages fetched per read */
+  batchSize?: number
+
+  /** Serialize messages sharing a key under concurrency (default: `envelope.jobId`, false = unordered) */
+  orderingKey?: OrderingKey | false
+
+  /** Minimum idle time before an unacknowledged message is reclaimed for retry (ms) */
+  claimMinIdleMs?: number
+
+  /** Interval between reclaim cycles for unacknowledged messages (ms) */
+  claimIntervalMs?: number
+
   /** Start reading from this message ID */
   startId?: string
 }
 
+/**
+ * Options for MessageConsumer.close()
+ */
+export interface ConsumerCloseOptions {
+  /**
+   * How long to wait for in-flight handlers before aborting them (ms);
+   * messages still unfinished are left un-ACKed for reclaim
+   */
+  timeoutMs?: number
+}
+
+/**
+ * Lifecycle state of a subscription
+ * - running: fetching and handling messages
+ * - paused: not fetching (messages already fetched still finish)
+ * - stopping: draining in-flight handlers
+ * - stopped: loop exited
+ */
+export type SubscriptionStatus = 'running' | 'paused' | 'stopping' | 'stopped'
+
+/**
+ * Counters of a subscription since subscribe()
+ */
+export interface SubscriptionStats {
+  /** Deliveries passed to the handler (incl. redeliveries) */
+  received: number
+
+  /** Deliveries settled without error (acked, dropped or re-scheduled) */
+  processed: number
+
+  /** Deliveries that failed and were left pending for redelivery */
+  failed: number
+
+  /** Messages sent to the dead letter queue */
+  deadLettered: number
+
+  /** Handlers currently running */
+  inFlight: number
+
+  /** When the subscription started (ISO timestamp) */
+  startedAt: string
+
+  /** When the last delivery was received (ISO timestamp) */
+  lastMessageAt?: string
+
+  /**
+   * When the consume loop last completed a read from the broker, or stopped waiting
+   * for its handlers to make room (ISO timestamp)
+   */
+  lastPollAt?: string
+
+  /** The consume loop is waiting for queued handlers (`batchSize` queued) before reading more */
+  waitingForHandlers: boolean
+
+  /** Last error thrown by the consume loop itself (not by handlers) */
+  lastError?: { message: string; at: string }
+
+  /** Consume loop errors since the last successful read (crash-loop indicator) */
+  consecutiveErrors: number
+}
+
+/**
+ * Handle to a running subscribe() loop
+ */
+export interface Subscription {
+  readonly topic: string
+  readonly consumerGroup: string
+  readonly consumerName: string
+
+  /** Current lifecycle state */
+  readonly status: SubscriptionStatus
+
+  /** Snapshot of the subscription's counters */
+  readonly stats: SubscriptionStats
+
+  /** Maximum number of handlers running at the same time */
+  readonly concurrency: number
+
+  /** Change concurrency without restarting (lowering it waits for running handlers) */
+  setConcurrency(concurrency: number): void
+
+  /** Stop fetching new messages (in-flight handlers keep running) */
+  pause(): void
+
+  /** Start fetching again after pause() */
+  resume(): void
+
+  /** Stop this subscription only: drain like MessageConsumer.close() */
+  stop(options?: ConsumerCloseOptions): Promise<void>
+}
+
 /**
  * Port for consuming messages (Clean Architecture)
  */
@@ -37,16 +182,24 @@ export interface MessageConsumer {
    * @param topic Topic to subscribe to
    * @param handler Function to handle each message
    * @param options Consumer configuration
+   * @returns Handle to pause, resume or stop this subscription
    */
   subscribe<T>(
     topic: TopicName | string,
     handler: MessageHandler<T>,
     options: ConsumerOptions
-  ): Promise<void>
+  ): Promise<Subscription>
+
+  /**
+   * Stop every subscription gracefully: stop fetching, drain in-flight handlers
+   * and resolve once every consume loop has exited
+   */
+  close(options?: ConsumerCloseOptions): Promise<void>
 
   /**
-   * Stop consuming messages gracefully
+   * Check broker connectivity (optional, used by health checks)
+   * @throws If the broker can't be reached
    */
-  close(): Promise<void>
+  ping?(): Promise<void>
 }
 
@@ -21,6 +21,15 @@ export interface MessageEnvelope<T = unknown> {
   /** Causation ID (what caused this event) */
   causationId?: string
 
+  /** W3C trace context of the publishing span */
+  traceparent?: string
+
+  /** W3C vendor-specific trace state */
+  tracestate?: string
+
+  /** Free-form metadata (source service, tenant, user, content-type, schema hash, ...) */
+  headers?: Record<string, string>
+
   /** Schema version for backward compatibility */
   version: number
 
@@ -0,0 +1,295 @@
+/**
+ * Built-in Prometheus metrics for publishing and consuming (no external dependency)
+ */
+
+import type { BrokerInspector } from './broker-inspector.port'
+import type { ConsumerManager } from './consumer-manager'
+
+/**
+ * How a consumed message ended, as counted by `messaging_consumed_total`
+ * - ack: handled successfully
+ * - retry: failed, retried (inline or broker-side)
+ * - dlq: sent to the dead letter queue
+ * - drop: discarded (dropped error or skipped invalid payload)
+ * - dedupe_skip: already processed (idempotency)
+ * - dedupe_in_progress: being processed by another worker, re-delivered later (idempotency)
+ * - filtered: skipped by the consumer's `filter`
+ */
+export type ConsumeOutcome =
+  | 'ack'
+  | 'retry'
+  | 'dlq'
+  | 'drop'
+  | 'dedupe_skip'
+  | 'dedupe_in_progress'
+  | 'filtered'
+
+/**
+ * Metrics configuration
+ */
+export interface MessagingMetricsOptions {
+  /** Metric name prefix (default: 'messaging_') */
+  prefix?: string
+
+  /** Histogram buckets in seconds (default: 5ms to 10s) */
+  buckets?: number[]
+
+  /** Broker inspector for consumer lag / pending gauges (collected on each scrape) */
+  inspector?: BrokerInspector
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+type Labels = Record<string, string>
+
+/**
+ * Metric family: one value per label set
+ */
+abstract class Metric<TValue> {
+  protected readonly values = new Map<string, { labels: Labels; value: TValue }>()
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  reset(): void {
+    this.values.clear()
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+    for (const { labels, value } of this.values.values()) {
+      lines.push(...this.renderValue(labels, value))
+    }
+    return lines
+  }
+
+  protected entry(labels: Labels, initial: () => TValue): { labels: Labels; value: TValue } {
+    const key = JSON.stringify(labels)
+    let entry = this.values.get(key)
+    if (!entry) {
+      entry = { labels, value: initial() }
+      this.values.set(key, entry)
+    }
+    return entry
+  }
+
+  protected abstract renderValue(labels: Labels, value: TValue): string[]
+}
+
+class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter')
+  }
+
+  inc(labels: Labels, amount = 1): void {
+    this.entry(labels, () => 0).value += amount
+  }
+
+  protected renderValue(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`]
+  }
+}
+
+class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge')
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value
+  }
+
+  protected renderValue(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`]
+  }
+}
+
+interface HistogramValue {
+  /** Cumulative count per bucket */
+  counts: number[]
+  sum: number
+  count: number
+}
+
+class Histogram extends Metric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[]
+  ) {
+    super(name, help, 'histogram')
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) entry.counts[index]++
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  protected renderValue(labels: Labels, value: HistogramValue): string[] {
+    return [
+      ...this.buckets.map(
+        (bucket, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${value.counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Publish and consume metrics in Prometheus text format
+ *
+ * Pass the same instance as `metrics` to `messaging()`, `messagingConsumers()`
+ * and `messagingMetrics()` (which serves `render()` on `/metrics`).
+ *
+ * @example
+ * ```ts
+ * const metrics = new MessagingMetrics({ inspector: new RedisStreamsInspector(redis) })
+ *
+ * app
+ *   .use(messaging({ registry, bus, metrics }))
+ *   .use(messagingConsumers({ consumers, consumer, metrics }))
+ *   .use(messagingMetrics({ metrics }))
+ * ```
+ */
+export class MessagingMetrics {
+  private readonly published: Counter
+  private readonly publishErrors: Counter
+  private readonly publishDuration: Histogram
+  private readonly handlerDuration: Histogram
+  private readonly handlerErrors: Counter
+  private readonly consumed: Counter
+  private readonly lag: Gauge
+  private readonly pending: Gauge
+
+  constructor(private readonly options: MessagingMetricsOptions = {}) {
+    const { prefix = 'messaging_', buckets = DEFAULT_BUCKETS } = options
+
+    this.published = new Counter(`${prefix}published_total`, 'Messages published')
+    this.publishErrors = new Counter(`${prefix}publish_errors_total`, 'Failed publish attempts')
+    this.publishDuration = new Histogram(
+      `${prefix}publish_duration_seconds`,
+      'Publish latency (validation and broker round trip)',
+      buckets
+    )
+    this.handlerDuration = new Histogram(
+      `${prefix}handler_duration_seconds`,
+      'Handler execution time per attempt',
+      buckets
+    )
+    this.handlerErrors = new Counter(`${prefix}handler_errors_total`, 'Handler attempts that threw')
+    this.consumed = new Counter(`${prefix}consumed_total`, 'Consumed messages by outcome')
+    this.lag = new Gauge(`${prefix}consumer_lag`, 'Messages not yet delivered to the consumer group')
+    this.pending = new Gauge(
+      `${prefix}consumer_pending`,
+      'Messages delivered to the consumer group but not acknowledged'
+    )
+  }
+
+  /**
+   * Record a publish attempt
+   * @param error Set if the publish failed
+   */
+  recordPublish(topic: string, durationMs: number, error?: unknown): void {
+    if (error) {
+      this.publishErrors.inc({ topic })
+    } else {
+      this.published.inc({ topic })
+    }
+    this.publishDuration.observe({ topic }, durationMs / 1000)
+  }
+
+  /**
+   * Record one handler execution
+   * @param failed True if the handler threw
+   */
+  recordHandler(topic: string, group: string, durationMs: number, failed = false): void {
+    this.handlerDuration.observe({ topic, group }, durationMs / 1000)
+    if (failed) {
+      this.handlerErrors.inc({ topic, group })
+    }
+  }
+
+  /**
+   * Record how a consumed message ended
+   */
+  recordOutcome(topic: string, group: string, outcome: ConsumeOutcome): void {
+    this.consumed.inc({ topic, group, outcome })
+  }
+
+  /**
+   * Render every metric in Prometheus text format
+   * @param consumers Consumers whose group lag / pending to collect (requires an inspector)
+   */
+  async render(consumers?: ConsumerManager<any>): Promise<string> {
+    await this.collectGroups(consumers)
+
+    const metrics = [
+      this.published,
+      this.publishErrors,
+      this.publishDuration,
+      this.handlerDuration,
+      this.handlerErrors,
+      this.consumed,
+      this.lag,
+      this.pending,
+    ]
+    return metrics.flatMap((metric) => metric.render()).join('\n') + '\n'
+  }
+
+  /**
+   * Refresh lag / pending gauges of the managed consumer groups
+   */
+  private async collectGroups(consumers?: ConsumerManager<any>): Promise<void> {
+    const { inspector } = this.options
+    if (!inspector || !consumers) {
+      return
+    }
+
+    this.lag.reset()
+    this.pending.reset()
+
+    const infos = consumers.list()
+    const topics = [...new Set(infos.map((info) => info.topic))]
+
+    await Promise.all(
+      topics.map(async (topic) => {
+        try {
+          const { groups } = await inspector.getTopicInfo(topic)
+          const managed = new Set(infos.filter((info) => info.topic === topic).map((info) => info.group))
+
+          for (const group of groups.filter((group) => managed.has(group.name))) {
+            this.pending.set({ topic, group: group.name }, group.pending)
+            if (group.lag !== undefined) {
+              this.lag.set({ topic, group: group.name }, group.lag)
+            }
+          }
+        } catch (error) {
+          console.error(`[Messaging Metrics] Failed to inspect ${topic}:`, error)
+        }
+      })
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import type { MessageEnvelope } from './message-envelope'
+
+/**
+ * Message waiting in the outbox
+ */
+export interface OutboxEntry {
+  topic: string
+  envelope: MessageEnvelope<unknown>
+
+  /** Delayed delivery time (epoch ms), resolved when the message was written */
+  deliverAt?: number
+
+  /**
+   * Publish idempotency key: an entry is skipped if the outbox already holds one with the
+   * same topic and key (stores must enforce this in the write's transaction)
+   */
+  idempotencyKey?: string
+}
+
+/**
+ * Outbox entry claimed by a relay
+ */
+export interface OutboxRecord extends OutboxEntry {
+  /** Record ID (the envelope's eventId) */
+  id: string
+
+  /** Publish attempts so far, including the current one */
+  attempts: number
+
+  /** Error of the previous failed attempt */
+  lastError?: string
+}
+
+/**
+ * Port for the transactional outbox
+ * Messages are written in the caller's database transaction, then relayed to the
+ * real MessageBus by an OutboxRelay (at-least-once: a crash between publish and
+ * complete() re-publishes the same envelope, so consumers should dedupe on eventId)
+ */
+export interface OutboxStore<TTransaction = unknown> {
+  /**
+   * Write messages to the outbox
+   * @param entries Messages to write (all or none, duplicate idempotency keys skipped)
+   * @param transaction Database transaction to write in (store-specific)
+   * @returns Number of entries written (skipped duplicates not counted)
+   */
+  add(entries: OutboxEntry[], transaction?: TTransaction): Promise<number>
+
+  /**
+   * Claim pending messages for publishing, oldest first
+   * Claimed messages are hidden from other relays until the lease expires.
+   * @param limit Maximum number of messages
+   * @param leaseMs How long the caller has to complete() or fail() them
+   */
+  claim(limit: number, leaseMs: number): Promise<OutboxRecord[]>
+
+  /**
+   * Mark messages as published
+   * @param ids Record IDs
+   */
+  complete(ids: string[]): Promise<void>
+
+  /**
+   * Record a failed publish attempt
+   * @param id Record ID
+   * @param error Error message
+   * @param retryAt When the message may be claimed again (epoch ms);
+   * omitted when the relay gives up: the message is kept as failed and never claimed again
+   */
+  fail(id: string, error: string, retryAt?: number): Promise<void>
+
+  /**
+   * Delete messages published before a given time
+   * @param publishedBefore Epoch ms
+   * @returns Number of deleted messages
+   */
+  cleanup(publishedBefore: number): Promise<number>
+
+  /**
+   * Close the store connection
+   */
+  close(): Promise<void>
+}
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './registry'
+import type { MessageBus } from './message-bus.port'
+import { OutboxRelay } from './outbox'
+import { SqliteOutboxStore } from '../adapters/sqlite/sqlite-outbox.store'
+import { createMessagingClient } from '../plugin-client'
+import { RecordingBus } from '../testing'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+  },
+})
+
+let db: Database
+let outbox: SqliteOutboxStore
+let bus: RecordingBus
+
+beforeEach(() => {
+  db = new Database(':memory:')
+  outbox = new SqliteOutboxStore(db)
+  bus = new RecordingBus()
+})
+
+const createClient = () => createMessagingClient({ registry, bus, outbox })
+
+/**
+ * Bus failing the first `failures` publishes, then recording them
+ */
+function flakyBus(failures: number): MessageBus & { calls: number } {
+  return {
+    calls: 0,
+    async publish(topic, envelope, options) {
+      if (++this.calls <= failures) {
+        throw new Error('broker down')
+      }
+      await bus.publish(topic, envelope, options)
+    },
+    async close() {},
+  }
+}
+
+interface OutboxRow {
+  attempts: number
+  last_error: string | null
+  failed_at: number | null
+  published_at: number | null
+}
+
+const rows = () =>
+  db
+    .query('SELECT attempts, last_error, failed_at, published_at FROM messaging_outbox')
+    .all() as OutboxRow[]
+
+describe('OutboxRelay', () => {
+  test('relays committed messages once, and never rolled-back ones', async () => {
+    const messaging = createClient()
+    const relay = new OutboxRelay({ store: outbox, bus })
+
+    await outbox.transaction(() => messaging.publish('video.jobs', { videoId: 'committed' }))
+    const rolledBack = outbox.transaction(async () => {
+      await messaging.publish('video.jobs', { videoId: 'rolled-back' })
+      throw new Error('insert failed')
+    })
+    await expect(rolledBack).rejects.toThrow('insert failed')
+
+    // Nothing reaches the bus before the relay runs
+    expect(bus.published('video.jobs')).toHaveLength(0)
+
+    expect(await relay.relayOnce()).toBe(1)
+    expect(await relay.relayOnce()).toBe(0)
+    expect(bus.published('video.jobs').map((envelope) => envelope.payload)).toEqual([
+      { videoId: 'committed' },
+    ])
+  })
+
+  test('keeps the delivery time of delayed messages', async () => {
+    const messaging = createClient()
+    const deliverAt = Date.now() + 60_000
+
+    await messaging.publish('video.jobs', { videoId: 'later' }, { deliverAt })
+    await new OutboxRelay({ store: outbox, bus }).relayOnce()
+
+    expect(bus.published('video.jobs')).toHaveLength(0)
+    expect(bus.scheduled('video.jobs')).toMatchObject([
+      { envelope: { payload: { videoId: 'later' } }, deliverAt },
+    ])
+  })
+
+  test('retries a failed publish after the retry delay', async () => {
+    const messaging = createClient()
+    const failing = flakyBus(1)
+
+    await messaging.publish('video.jobs', { videoId: 'v1' })
+
+    const relay = new OutboxRelay({
+      store: outbox,
+      bus: failing,
+      retry: { type: 'fixed', delayMs: 60_000 },
+    })
+    expect(await relay.relayOnce()).toBe(0)
+    expect(await relay.relayOnce()).toBe(0) // Hidden until the retry delay has passed
+    expect(failing.calls).toBe(1)
+    expect(rows()).toMatchObject([{ attempts: 1, last_error: 'broker down', failed_at: null }])
+
+    db.run('UPDATE messaging_outbox SET available_at = 0')
+    expect(await relay.relayOnce()).toBe(1)
+    expect(bus.published('video.jobs')).toHaveLength(1)
+  })
+
+  test('gives up after maxAttempts', async () => {
+    const messaging = createClient()
+    const failing = flakyBus(Infinity)
+    const relay = new OutboxRelay({
+      store: outbox,
+      bus: failing,
+      retry: { type: 'fixed', delayMs: 0 },
+      maxAttempts: 3,
+    })
+
+    await messaging.publish('video.jobs', { videoId: 'v1' })
+    for (let pass = 0; pass < 5; pass++) {
+      await relay.relayOnce()
+    }
+
+    expect(failing.calls).toBe(3)
+    const [row] = rows()
+    expect(row).toMatchObject({ attempts: 3, last_error: 'broker down', published_at: null })
+    expect(row.failed_at).toBeNumber()
+  })
+})
+
+describe('SqliteOutboxStore idempotency keys', () => {
+  test('writes a key once per topic', async () => {
+    const messaging = createClient()
+
+    await messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+    await messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+    await messaging.publish('video.jobs', { videoId: 'v2' }, { idempotencyKey: 'upload-2' })
+
+    expect(await new OutboxRelay({ store: outbox, bus }).relayOnce()).toBe(2)
+  })
+
+  test('reports a skipped duplicate to no publish hook', async () => {
+    const hooked: string[] = []
+    const messaging = createMessagingClient({
+      registry,
+      bus,
+      outbox,
+      hooks: {
+        onPublish: async (_topic, envelope) => {
+          hooked.push(envelope.eventId)
+        },
+      },
+    })
+
+    await messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+    await messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+
+    expect(hooked).toHaveLength(1)
+    expect(db.query('SELECT id FROM messaging_outbox').all()).toEqual([{ id: hooked[0] }])
+  })
+
+  test('frees the key when the transaction rolls back', async () => {
+    const messaging = createClient()
+
+    const rolledBack = outbox.transaction(async () => {
+      await messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+      throw new Error('insert failed')
+    })
+    await expect(rolledBack).rejects.toThrow('insert failed')
+
+    await outbox.transaction(() =>
+      messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+    )
+
+    expect(await new OutboxRelay({ store: outbox, bus }).relayOnce()).toBe(1)
+  })
+})
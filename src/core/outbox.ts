@@ -0,0 +1,297 @@
+/**
+ * Transactional outbox: write envelopes with the business data, relay them to the bus later
+ */
+
+import type { MessageBus, PublishOptions } from './message-bus.port'
+import { publishEnvelopes, resolveDeliverAt } from './message-bus.port'
+import type { MessageEnvelope } from './message-envelope'
+import type { OutboxRecord, OutboxStore } from './outbox-store.port'
+import type { ExponentialRetryPolicy, FixedRetryPolicy, LinearRetryPolicy } from './retry-policy'
+import { resolveRetryDecision } from './retry-policy'
+import { sleep } from './concurrency'
+
+/**
+ * MessageBus that writes to an outbox store instead of a broker
+ * Used by the messaging client in outbox mode (one instance per transaction,
+ * or per publish with an idempotency key).
+ */
+export class OutboxBus implements MessageBus {
+  /** Publishes skipped because the outbox already held their idempotency key */
+  skipped = 0
+
+  constructor(
+    private readonly store: OutboxStore<any>,
+    private readonly transaction?: unknown,
+    private readonly idempotencyKey?: string
+  ) {}
+
+  async publish<T>(
+    topic: string,
+    envelope: MessageEnvelope<T>,
+    options?: PublishOptions
+  ): Promise<void> {
+    const { idempotencyKey } = this
+    const written = await this.store.add(
+      [{ topic, envelope, deliverAt: resolveDeliverAt(options), idempotencyKey }],
+      this.transaction
+    )
+    if (written === 0) {
+      this.skipped++
+    }
+  }
+
+  /**
+   * Write the whole batch at once (all or none)
+   */
+  async publishBatch<T>(
+    topic: string,
+    envelopes: MessageEnvelope<T>[]
+  ): Promise<Array<Error | undefined>> {
+    await this.store.add(
+      envelopes.map((envelope) => ({ topic, envelope })),
+      this.transaction
+    )
+    return envelopes.map(() => undefined)
+  }
+
+  async close(): Promise<void> {
+    // The store is closed by its owner
+  }
+}
+
+/**
+ * Outbox relay configuration
+ */
+export interface OutboxRelayOptions {
+  /** Outbox to drain */
+  store: OutboxStore<any>
+
+  /** Bus to publish to (or resolver) */
+  bus: MessageBus | ((topic: string) => MessageBus)
+
+  /** Messages claimed per pass (default: 100) */
+  batchSize?: number
+
+  /** Wait between passes when the outbox is empty (ms, default: 1000) */
+  pollIntervalMs?: number
+
+  /** How long a claimed message stays hidden from other relays (ms, default: 30000) */
+  leaseMs?: number
+
+  /** Delay before a failed message is retried (default: exponential from 1s up to 1min) */
+  retry?: FixedRetryPolicy | LinearRetryPolicy | ExponentialRetryPolicy
+
+  /** Publish attempts before a message is marked as failed for good (default: 100) */
+  maxAttempts?: number
+
+  /** How long published messages are kept before cleanup (ms, default: 24h, 0 = next cleanup) */
+  retentionMs?: number
+
+  /** Interval between cleanups of published messages (ms, default: 60000) */
+  cleanupIntervalMs?: number
+}
+
+const DEFAULTS = {
+  BATCH_SIZE: 100,
+  POLL_INTERVAL_MS: 1000,
+  LEASE_MS: 30000,
+  RETENTION_MS: 24 * 60 * 60 * 1000,
+  CLEANUP_INTERVAL_MS: 60000,
+  MAX_ATTEMPTS: 100,
+  RETRY: { type: 'exponential', baseDelayMs: 1000, maxDelayMs: 60000, jitter: false },
+} as const
+
+/**
+ * Drains an outbox to the real bus
+ *
+ * Each pass claims pending messages, publishes them (batched per topic) and marks
+ * them as published. Failed messages are retried after the retry policy's delay, up to
+ * `maxAttempts`; messages of a crashed relay are claimed again once their lease expires.
+ *
+ * @example
+ * ```ts
+ * const relay = new OutboxRelay({ store: outbox, bus: redisBus })
+ * relay.start()
+ * // ...
+ * await relay.stop()
+ * ```
+ */
+export class OutboxRelay {
+  private running?: { abort: AbortController; loop: Promise<void> }
+  private lastCleanupAt = 0
+  private backlog = false
+
+  constructor(private readonly options: OutboxRelayOptions) {}
+
+  /**
+   * Relay continuously until stop()
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+
+    const abort = new AbortController()
+    this.running = { abort, loop: this.loop(abort.signal) }
+    console.log('[OutboxRelay] Started')
+  }
+
+  /**
+   * Stop relaying (resolves once the current pass has finished)
+   */
+  async stop(): Promise<void> {
+    const running = this.running
+    if (!running) {
+      return
+    }
+
+    this.running = undefined
+    running.abort.abort()
+    await running.loop
+    console.log('[OutboxRelay] Stopped')
+  }
+
+  /**
+   * Run one pass: claim, publish and complete pending messages
+   * @returns Number of messages published
+   */
+  async relayOnce(): Promise<number> {
+    const {
+      store,
+      batchSize = DEFAULTS.BATCH_SIZE,
+      leaseMs = DEFAULTS.LEASE_MS,
+    } = this.options
+
+    const records = await store.claim(batchSize, leaseMs)
+    this.backlog = records.length >= batchSize
+    if (records.length === 0) {
+      return 0
+    }
+
+    const published: string[] = []
+    for (const [topic, group] of groupByTopic(records)) {
+      const bus = this.getBus(topic)
+
+      // Due messages go in one batch, delayed ones keep their delivery time
+      const isDue = (record: OutboxRecord) =>
+        resolveDeliverAt({ deliverAt: record.deliverAt }) === undefined
+      const due = group.filter(isDue)
+      const delayed = group.filter((record) => !isDue(record))
+
+      const results: Array<Error | undefined> = await publishEnvelopes(
+        bus,
+        topic,
+        due.map((record) => record.envelope)
+      ).catch((error: Error) => due.map(() => error))
+
+      for (const record of delayed) {
+        const options = { deliverAt: record.deliverAt }
+        results.push(await settle(bus.publish(topic, record.envelope, options)))
+      }
+
+      for (const [index, record] of [...due, ...delayed].entries()) {
+        const error = results[index]
+        if (error) {
+          await this.fail(record, error)
+        } else {
+          published.push(record.id)
+        }
+      }
+    }
+
+    if (published.length > 0) {
+      await store.complete(published)
+    }
+    return published.length
+  }
+
+  /**
+   * Delete messages published longer than `retentionMs` ago
+   * @returns Number of deleted messages
+   */
+  async cleanup(): Promise<number> {
+    const { store, retentionMs = DEFAULTS.RETENTION_MS } = this.options
+    this.lastCleanupAt = Date.now()
+
+    const deleted = await store.cleanup(Date.now() - retentionMs)
+    if (deleted > 0) {
+      console.log(`[OutboxRelay] Cleaned up ${deleted} published message(s)`)
+    }
+    return deleted
+  }
+
+  private async loop(signal: AbortSignal): Promise<void> {
+    const {
+      pollIntervalMs = DEFAULTS.POLL_INTERVAL_MS,
+      cleanupIntervalMs = DEFAULTS.CLEANUP_INTERVAL_MS,
+    } = this.options
+
+    while (!signal.aborted) {
+      this.backlog = false
+
+      try {
+        await this.relayOnce()
+
+        if (Date.now() - this.lastCleanupAt >= cleanupIntervalMs) {
+          await this.cleanup()
+        }
+      } catch (error) {
+        console.error('[OutboxRelay] Relay error:', error)
+      }
+
+      // Keep draining while a full batch was claimed
+      if (!this.backlog) {
+        await sleep(pollIntervalMs, signal)
+      }
+    }
+  }
+
+  private async fail(record: OutboxRecord, error: Error): Promise<void> {
+    const { store, maxAttempts = DEFAULTS.MAX_ATTEMPTS } = this.options
+
+    if (record.attempts >= maxAttempts) {
+      console.error(
+        `[OutboxRelay] Giving up on ${record.id} to ${record.topic} after ${record.attempts} attempts:`,
+        error.message
+      )
+      await store.fail(record.id, error.message)
+      return
+    }
+
+    const delayMs = resolveRetryDecision(
+      this.options.retry ?? DEFAULTS.RETRY,
+      record.attempts,
+      error,
+      record.envelope
+    ) as number
+
+    console.error(
+      `[OutboxRelay] Failed to publish ${record.id} to ${record.topic}` +
+        ` (attempt ${record.attempts}):`,
+      error.message
+    )
+    await store.fail(record.id, error.message, Date.now() + delayMs)
+  }
+
+  private getBus(topic: string): MessageBus {
+    const { bus } = this.options
+    return typeof bus === 'function' ? bus(topic) : bus
+  }
+}
+
+function groupByTopic(records: OutboxRecord[]): Map<string, OutboxRecord[]> {
+  const groups = new Map<string, OutboxRecord[]>()
+  for (const record of records) {
+    groups.set(record.topic, [...(groups.get(record.topic) ?? []), record])
+  }
+  return groups
+}
+
+async function settle(promise: Promise<void>): Promise<Error | undefined> {
+  try {
+    await promise
+    return undefined
+  } catch (error) {
+    return error as Error
+  }
+}
@@ -5,8 +5,13 @@
 import type { MessageEnvelope } from './message-envelope'
 import { createEnvelope } from './message-envelope'
 import type { TopicRegistry, TopicName, TopicPayload, TopicMessageType } from './registry.types'
-import type { MessageBus } from './message-bus.port'
+import type { MessageBus, PublishOptions } from './message-bus.port'
+import { publishEnvelopes } from './message-bus.port'
+import { PublishBatchError } from './errors'
+import { ValidationError } from './registry.types'
 import { validateTopicPayload, getTopicDefinition } from './registry'
+import type { MessagingTracer, SpanAttributes } from './tracing'
+import { defaultTracer } from './tracing'
 
 /**
  * Publisher options
@@ -20,9 +25,44 @@ export interface PublisherOptions {
   
   /** Custom causation ID */
   causationId?: string
+
+  /** Default envelope headers (e.g. source service) */
+  headers?: Record<string, string>
   
-  /** Delay delivery (if supported by broker) */
+  /** Default delivery delay (ms, if supported by the bus) */
   delayMs?: number
+
+  /** Tracer for producer spans (default: OpenTelemetry if installed, no-op otherwise) */
+  tracer?: MessagingTracer
+}
+
+/**
+ * Per-message envelope metadata accepted by publish functions
+ */
+export interface PublishMeta {
+  /** Job identifier (default: random UUID) */
+  jobId?: string
+
+  /** Correlation ID shared by every message of a flow */
+  correlationId?: string
+
+  /** ID of the event that caused this one */
+  causationId?: string
+
+  /** Envelope headers (merged over the publisher's default headers) */
+  headers?: Record<string, string>
+
+  /** Deliver after this many milliseconds (overrides the publisher's default delayMs) */
+  delayMs?: number
+
+  /** Deliver at this time (Date or epoch ms; takes precedence over delayMs) */
+  deliverAt?: Date | number
+
+  /**
+   * Publish at most once per key and topic within the dedupe window
+   * (honoured by the messaging client, backed by its dedupe store, or by the outbox in outbox mode)
+   */
+  idempotencyKey?: string
 }
 
 /**
@@ -30,11 +70,7 @@ export interface PublisherOptions {
  */
 export type Publisher<TPayload = any> = (
   payload: TPayload,
-  meta?: {
-    jobId?: string
-    correlationId?: string
-    causationId?: string
-  }
+  meta?: PublishMeta
 ) => Promise<void>
 
 /**
@@ -87,30 +123,28 @@ export function createPublisher<
 
   return async (
     payload: TopicPayload<TRegistry, TTopic>,
-    meta?: {
-      jobId?: string
-      correlationId?: string
-      causationId?: string
-    }
+    meta?: PublishMeta
   ) => {
     // Validate payload if enabled
     if (defaultOptions.validate !== false) {
       validateTopicPayload(registry, topic, payload)
     }
 
-    // Create envelope with proper messageType from registry
-    const envelope = createEnvelope(
-      definition.messageType || topic,
-      meta?.jobId || crypto.randomUUID(),
-      payload,
-      {
+    const messageType = definition.messageType || topic
+    const tracer = defaultOptions.tracer ?? defaultTracer
+
+    await tracer.tracePublish(topic, getPublishAttributes(topic, meta), async (traceContext) => {
+      // Create envelope with proper messageType from registry
+      const envelope = createEnvelope(messageType, meta?.jobId || crypto.randomUUID(), payload, {
         correlationId: meta?.correlationId || defaultOptions.correlationId,
         causationId: meta?.causationId || defaultOptions.causationId,
-      }
-    )
+        headers: mergeHeaders(defaultOptions.headers, meta?.headers),
+        ...traceContext,
+      })
 
-    // Publish via bus
-    await bus.publish(topic, envelope)
+      // Publish via bus (held by the broker until due if delayed)
+      await bus.publish(topic, envelope, getPublishOptions(defaultOptions, meta))
+    })
   }
 }
 
@@ -126,11 +160,7 @@ export function createPublishFunction<TRegistry extends TopicRegistry<any>>(
   return async <TTopic extends TopicName<TRegistry>>(
     topic: TTopic,
     payload: TopicPayload<TRegistry, TTopic>,
-    meta?: {
-      jobId?: string
-      correlationId?: string
-      causationId?: string
-    }
+    meta?: PublishMeta
   ): Promise<MessageEnvelope<TopicPayload<TRegistry, TTopic>>> => {
     // Validate payload if enabled
     if (options.validate !== false) {
@@ -139,23 +169,143 @@ export function createPublishFunction<TRegistry extends TopicRegistry<any>>(
 
     // Get topic definition for messageType
     const definition = getTopicDefinition(registry, topic)
+    const messageType = definition.messageType || topic
+    const tracer = options.tracer ?? defaultTracer
 
-    // Create envelope with proper messageType from registry
-    const envelope = createEnvelope(
-      definition.messageType || topic,
-      meta?.jobId || crypto.randomUUID(),
-      payload,
-      {
+    return tracer.tracePublish(topic, getPublishAttributes(topic, meta), async (traceContext) => {
+      // Create envelope with proper messageType from registry
+      // (carrying the producer span's trace context)
+      const envelope = createEnvelope(messageType, meta?.jobId || crypto.randomUUID(), payload, {
         correlationId: meta?.correlationId || options.correlationId,
         causationId: meta?.causationId || options.causationId,
+        headers: mergeHeaders(options.headers, meta?.headers),
+        ...traceContext,
+      })
+
+      // Publish via bus (held by the broker until due if delayed)
+      await bus.publish(topic, envelope, getPublishOptions(options, meta))
+
+      // Return envelope for hooks
+      return envelope
+    })
+  }
+}
+
+/**
+ * Create a batch publish function bound to a registry
+ * (used internally by the plugin decorator)
+ *
+ * Every payload is validated before anything is published; the batch goes through
+ * `bus.publishBatch()` when supported (one round trip), or one message at a time.
+ * @throws ValidationError if any payload is invalid (nothing published)
+ * @throws PublishBatchError if some messages failed to publish (the others were published)
+ */
+export function createPublishBatchFunction<TRegistry extends TopicRegistry<any>>(
+  registry: TRegistry,
+  bus: MessageBus,
+  options: PublisherOptions = {}
+) {
+  return async <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    payloads: TopicPayload<TRegistry, TTopic>[],
+    meta?: PublishMeta
+  ): Promise<MessageEnvelope<TopicPayload<TRegistry, TTopic>>[]> => {
+    // Validate every payload up front
+    if (options.validate !== false) {
+      validateBatch(registry, topic, payloads)
+    }
+
+    const definition = getTopicDefinition(registry, topic)
+    const messageType = definition.messageType || topic
+    const tracer = options.tracer ?? defaultTracer
+    const attributes = {
+      ...getPublishAttributes(topic, meta),
+      'messaging.batch.message_count': payloads.length,
+    }
+
+    return tracer.tracePublish(topic, attributes, async (traceContext) => {
+      const envelopes = payloads.map((payload) =>
+        createEnvelope(messageType, meta?.jobId || crypto.randomUUID(), payload, {
+          correlationId: meta?.correlationId || options.correlationId,
+          causationId: meta?.causationId || options.causationId,
+          headers: mergeHeaders(options.headers, meta?.headers),
+          ...traceContext,
+        })
+      )
+
+      const publishOptions = getPublishOptions(options, meta)
+      const results = await publishEnvelopes(bus, topic, envelopes, publishOptions)
+      const failures = envelopes.flatMap((envelope, index) => {
+        const error = results[index]
+        return error ? [{ index, envelope, error }] : []
+      })
+
+      if (failures.length > 0) {
+        throw new PublishBatchError(failures, envelopes)
       }
-    )
 
-    // Publish via bus
-    await bus.publish(topic, envelope)
-    
-    // Return envelope for hooks
-    return envelope
+      return envelopes
+    })
+  }
+}
+
+/**
+ * Delivery options of a publish (per-message meta over publisher defaults)
+ */
+function getPublishOptions(options: PublisherOptions, meta?: PublishMeta): PublishOptions {
+  return {
+    delayMs: meta?.delayMs ?? options.delayMs,
+    deliverAt: meta?.deliverAt,
+  }
+}
+
+/**
+ * Validate every payload of a batch, reporting all invalid ones at once
+ * (error paths are prefixed with the payload's index)
+ */
+function validateBatch<TRegistry extends TopicRegistry<any>>(
+  registry: TRegistry,
+  topic: TopicName<TRegistry>,
+  payloads: unknown[]
+): void {
+  const errors: Array<{ path: string; message: string }> = []
+
+  payloads.forEach((payload, index) => {
+    try {
+      validateTopicPayload(registry, topic, payload)
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+      errors.push(...error.errors.map((item) => ({ ...item, path: `/${index}${item.path}` })))
+    }
+  })
+
+  if (errors.length > 0) {
+    const summary = errors.map((e) => `${e.path}: ${e.message}`).join(', ')
+    throw new ValidationError(`Validation failed: ${summary}`, errors)
+  }
+}
+
+/**
+ * Merge default and per-message headers (undefined when there are none)
+ */
+function mergeHeaders(
+  defaults?: Record<string, string>,
+  headers?: Record<string, string>
+): Record<string, string> | undefined {
+  if (!defaults && !headers) {
+    return undefined
+  }
+  return { ...defaults, ...headers }
+}
+
+/**
+ * Producer span attributes (OpenTelemetry messaging semantic conventions)
+ */
+function getPublishAttributes(topic: string, meta?: { correlationId?: string }): SpanAttributes {
+  return {
+    'messaging.operation.type': 'publish',
+    'messaging.destination.name': topic,
+    'messaging.message.conversation_id': meta?.correlationId,
   }
 }
 
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './registry'
+import { RecurringScheduler } from './recurring-scheduler'
+import { InMemoryScheduleStore } from '../adapters/memory/memory-schedule.store'
+
+const registry = createTopicRegistry({
+  'reports.generate': {
+    schema: Type.Object({ at: Type.Number() }),
+  },
+})
+
+let scheduler: RecurringScheduler<typeof registry> | undefined
+
+afterEach(async () => {
+  await scheduler?.stopAll()
+  scheduler = undefined
+})
+
+describe('RecurringScheduler missed ticks', () => {
+  test('skip publishes the latest due tick after a stall', async () => {
+    const ticks: number[] = []
+    let publishes = 0
+
+    scheduler = new RecurringScheduler<typeof registry>({
+      async publish(_topic, payload) {
+        ticks.push(payload.at)
+        // The first publish stalls for several intervals
+        if (++publishes === 1) await Bun.sleep(220)
+      },
+    })
+    scheduler.add('report', {
+      topic: 'reports.generate',
+      everyMs: 50,
+      payload: ({ scheduledAt }) => ({ at: scheduledAt.getTime() }),
+    })
+
+    await Bun.sleep(330)
+    const resumedAt = Date.now()
+
+    // Ticks missed during the stall are dropped, not published one by one
+    expect(ticks[1] - ticks[0]).toBeGreaterThanOrEqual(200)
+    expect(ticks.at(-1)).toBeGreaterThan(resumedAt - 100)
+    expect(ticks.every((tick, index) => index === 0 || tick > ticks[index - 1])).toBe(true)
+  })
+})
+
+describe('RecurringScheduler failed ticks', () => {
+  test('releases a failed tick and publishes it on the next run', async () => {
+    const store = new InMemoryScheduleStore()
+    const attempts: number[] = []
+    const published: number[] = []
+
+    scheduler = new RecurringScheduler<typeof registry>({
+      store,
+      async publish(_topic, payload) {
+        attempts.push(payload.at)
+        if (attempts.length === 1) throw new Error('broker down')
+        published.push(payload.at)
+      },
+    })
+    scheduler.add('report', {
+      topic: 'reports.generate',
+      everyMs: 50,
+      missedTicks: 'catch-up',
+      payload: ({ scheduledAt }) => ({ at: scheduledAt.getTime() }),
+    })
+
+    await Bun.sleep(180)
+
+    // The failed tick comes first, then every later tick in order
+    expect(published[0]).toBe(attempts[0])
+    expect(published.slice(1).every((tick, index) => tick - published[index] === 50)).toBe(true)
+    expect(await store.getLastTick('report')).toBe(published.at(-1))
+  })
+})
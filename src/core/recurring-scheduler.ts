@@ -0,0 +1,410 @@
+/**
+ * Recurring publishers: publish a payload to a topic on a cron expression or fixed interval
+ */
+
+import type { TopicRegistry, TopicName, TopicPayload } from './registry.types'
+import type { PublishMeta } from './publisher-helper'
+import type { ScheduleStore } from './schedule-store.port'
+import { nextCronTime, parseCron } from './cron'
+
+/**
+ * What to do with ticks missed while no replica was running (or the process was stalled)
+ * - skip: drop them, publish only the latest due tick
+ * - catch-up: publish them in order, up to `maxCatchUp`
+ */
+export type MissedTickPolicy = 'skip' | 'catch-up'
+
+/**
+ * Tick passed to a payload factory
+ */
+export interface ScheduleTick {
+  /** Schedule name */
+  name: string
+
+  /** Time the tick was due (earlier than now when catching up) */
+  scheduledAt: Date
+}
+
+/**
+ * Builds the payload of a tick
+ */
+export type ScheduledPayloadFactory<TPayload> = (tick: ScheduleTick) => TPayload | Promise<TPayload>
+
+/**
+ * Recurring publisher definition (exactly one of `cron` / `everyMs`)
+ */
+export interface ScheduleDefinition<
+  TRegistry extends TopicRegistry<any>,
+  TTopic extends TopicName<TRegistry>
+> {
+  /** Topic to publish to */
+  topic: TTopic
+
+  /** Cron expression, evaluated in UTC (e.g. '0 0 * * *', '@hourly') */
+  cron?: string
+
+  /** Fixed interval in ms (ticks are aligned to the epoch, so every replica agrees on them) */
+  everyMs?: number
+
+  /** Payload, or factory called on each tick */
+  payload:
+    | TopicPayload<TRegistry, TTopic>
+    | ScheduledPayloadFactory<TopicPayload<TRegistry, TTopic>>
+
+  /** Publish meta of every message (`schedule` / `scheduledAt` headers are added) */
+  meta?: PublishMeta
+
+  /** Missed tick policy (default: 'skip') */
+  missedTicks?: MissedTickPolicy
+
+  /** Most missed ticks published when catching up; older ones are dropped (default: 10) */
+  maxCatchUp?: number
+
+  /** How long a tick claim is kept in the schedule store (ms, default: 10 minutes) */
+  lockTtlMs?: number
+}
+
+/**
+ * Snapshot of a recurring publisher
+ */
+export interface ScheduleInfo {
+  name: string
+  topic: string
+  cron?: string
+  everyMs?: number
+  missedTicks: MissedTickPolicy
+
+  /** Next tick (ISO) */
+  nextRunAt?: string
+
+  /** Last tick published by this process (ISO) */
+  lastRunAt?: string
+
+  /** Ticks published by this process */
+  runs: number
+
+  lastError?: { message: string; at: string }
+}
+
+/**
+ * Dependencies of a RecurringScheduler
+ */
+export interface RecurringSchedulerOptions<TRegistry extends TopicRegistry<any>> {
+  /** Publish function (the messaging client's, so validation and hooks apply) */
+  publish: (topic: TopicName<TRegistry>, payload: any, meta?: PublishMeta) => Promise<unknown>
+
+  /** Store claiming each tick once across replicas (default: this process fires every tick) */
+  store?: ScheduleStore
+}
+
+interface ScheduleEntry {
+  name: string
+  definition: ScheduleDefinition<any, any>
+  next: (after: number) => number
+  nextTick: number
+  lastTick: number
+  runs: number
+  lastRunAt?: number
+  lastError?: { message: string; at: string }
+  timer?: ReturnType<typeof setTimeout>
+  running?: Promise<void>
+  stopped: boolean
+}
+
+const DEFAULT_MAX_CATCH_UP = 10
+const DEFAULT_LOCK_TTL_MS = 10 * 60_000
+
+// setTimeout overflows above ~24.8 days: longer waits are re-armed
+const MAX_TIMER_MS = 2_147_483_647
+
+/**
+ * Runs recurring publishers and controls them at runtime
+ *
+ * With a ScheduleStore shared by every replica, each tick is published once
+ * (the replica that claims it first wins).
+ *
+ * @example
+ * ```ts
+ * const scheduler = new RecurringScheduler({
+ *   publish: messaging.publish,
+ *   store: new RedisScheduleStore(redis),
+ * })
+ *
+ * scheduler.add('daily-report', {
+ *   topic: 'reports.generate',
+ *   cron: '0 0 * * *',
+ *   payload: ({ scheduledAt }) => ({ date: scheduledAt.toISOString() }),
+ * })
+ * ```
+ */
+export class RecurringScheduler<TRegistry extends TopicRegistry<any>> {
+  private readonly entries = new Map<string, ScheduleEntry>()
+
+  constructor(private readonly options: RecurringSchedulerOptions<TRegistry>) {}
+
+  /**
+   * Start a recurring publisher
+   * @throws Error if the name is taken or the definition is invalid
+   */
+  add<TTopic extends TopicName<TRegistry>>(
+    name: string,
+    definition: ScheduleDefinition<TRegistry, TTopic>
+  ): ScheduleInfo {
+    if (this.entries.has(name)) {
+      throw new Error(`Schedule already registered: ${name}`)
+    }
+
+    const next = getTickSource(name, definition)
+    const now = Date.now()
+    const entry: ScheduleEntry = {
+      name,
+      definition,
+      next,
+      nextTick: next(now),
+      lastTick: now,
+      runs: 0,
+      stopped: false,
+    }
+
+    this.entries.set(name, entry)
+    entry.running = this.start(entry)
+    const every = definition.cron ?? `every ${definition.everyMs}ms`
+    console.log(`[RecurringScheduler] Scheduled ${name} (${every}) -> ${String(definition.topic)}`)
+
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Snapshot of every recurring publisher
+   */
+  list(): ScheduleInfo[] {
+    return [...this.entries.values()].map((entry) => this.toInfo(entry))
+  }
+
+  /**
+   * Snapshot of one recurring publisher
+   */
+  get(name: string): ScheduleInfo | undefined {
+    const entry = this.entries.get(name)
+    return entry && this.toInfo(entry)
+  }
+
+  /**
+   * Stop a recurring publisher (resolves once its current tick has been published)
+   * @returns false if there was no such schedule
+   */
+  async remove(name: string): Promise<boolean> {
+    const entry = this.entries.get(name)
+    if (!entry) {
+      return false
+    }
+
+    this.entries.delete(name)
+    await this.stopEntry(entry)
+    console.log(`[RecurringScheduler] Removed ${name}`)
+    return true
+  }
+
+  /**
+   * Stop every recurring publisher
+   */
+  async stopAll(): Promise<void> {
+    const entries = [...this.entries.values()]
+    this.entries.clear()
+    await Promise.all(entries.map((entry) => this.stopEntry(entry)))
+  }
+
+  private async start(entry: ScheduleEntry): Promise<void> {
+    const { store } = this.options
+
+    // Resume from the last tick published by any replica
+    if (entry.definition.missedTicks === 'catch-up' && store) {
+      try {
+        entry.lastTick = (await store.getLastTick(entry.name)) ?? entry.lastTick
+      } catch (error) {
+        console.error(`[RecurringScheduler] Failed to load last tick of ${entry.name}:`, error)
+      }
+    }
+
+    await this.run(entry)
+  }
+
+  private async run(entry: ScheduleEntry): Promise<void> {
+    if (entry.stopped) {
+      return
+    }
+
+    const now = Date.now()
+    for (const tick of this.getDueTicks(entry, now)) {
+      if (entry.stopped) return
+      // A failed tick is retried on the next run, before any later tick
+      if (!(await this.fire(entry, tick))) break
+    }
+
+    entry.nextTick = entry.next(now)
+    this.arm(entry)
+  }
+
+  private getDueTicks(entry: ScheduleEntry, now: number): number[] {
+    const { missedTicks = 'skip', maxCatchUp = DEFAULT_MAX_CATCH_UP, everyMs } = entry.definition
+
+    if (missedTicks === 'skip') {
+      if (entry.nextTick > now) {
+        return []
+      }
+
+      // Only the latest due tick is published: older missed ones are skipped
+      let tick = entry.nextTick
+      if (everyMs) {
+        tick = Math.floor(now / everyMs) * everyMs
+      } else {
+        for (let next = entry.next(tick); next <= now; next = entry.next(next)) {
+          tick = next
+        }
+      }
+
+      if (tick !== entry.nextTick) {
+        console.warn(`[RecurringScheduler] Skipping missed tick(s) of ${entry.name}`)
+      }
+      return tick > entry.lastTick ? [tick] : []
+    }
+
+    // Intervals can jump straight to the last `maxCatchUp` ticks
+    const from = everyMs ? Math.max(entry.lastTick, now - everyMs * maxCatchUp) : entry.lastTick
+    const ticks: number[] = []
+    let dropped = 0
+
+    for (let tick = entry.next(from); tick <= now; tick = entry.next(tick)) {
+      ticks.push(tick)
+      if (ticks.length > maxCatchUp) {
+        ticks.shift()
+        dropped++
+      }
+    }
+
+    if (ticks.length > 1 || dropped > 0) {
+      console.warn(
+        `[RecurringScheduler] Catching up ${ticks.length} missed tick(s) of ${entry.name}` +
+          (dropped > 0 ? ` (${dropped} older dropped)` : '')
+      )
+    }
+    return ticks
+  }
+
+  /**
+   * Claim and publish one tick
+   * @returns false if the tick failed (its claim is released and lastTick restored)
+   */
+  private async fire(entry: ScheduleEntry, tick: number): Promise<boolean> {
+    const { name, definition } = entry
+    const { store } = this.options
+    const previousTick = entry.lastTick
+    let claimed = false
+    entry.lastTick = tick
+
+    try {
+      if (store && !(await store.claim(name, tick, definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS))) {
+        return true // Another replica published this tick
+      }
+      claimed = true
+
+      const scheduledAt = new Date(tick)
+      const payload =
+        typeof definition.payload === 'function'
+          ? await definition.payload({ name, scheduledAt })
+          : definition.payload
+
+      await this.options.publish(definition.topic, payload, {
+        ...definition.meta,
+        headers: {
+          ...definition.meta?.headers,
+          schedule: name,
+          scheduledAt: scheduledAt.toISOString(),
+        },
+      })
+
+      entry.runs++
+      entry.lastRunAt = tick
+      return true
+    } catch (error) {
+      entry.lastError = {
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      }
+      console.error(
+        `[RecurringScheduler] Tick ${new Date(tick).toISOString()} of ${name} failed:`,
+        error
+      )
+
+      entry.lastTick = previousTick
+      if (store && claimed) {
+        await store
+          .release(name, tick, previousTick)
+          .catch((releaseError) =>
+            console.error(`[RecurringScheduler] Failed to release tick of ${name}:`, releaseError)
+          )
+      }
+      return false
+    }
+  }
+
+  private arm(entry: ScheduleEntry): void {
+    if (entry.stopped) {
+      return
+    }
+
+    // Waking up early (long waits) just re-arms: no tick is due yet
+    const delayMs = Math.min(Math.max(entry.nextTick - Date.now(), 0), MAX_TIMER_MS)
+    entry.timer = setTimeout(() => {
+      entry.running = this.run(entry)
+    }, delayMs)
+  }
+
+  private async stopEntry(entry: ScheduleEntry): Promise<void> {
+    entry.stopped = true
+    clearTimeout(entry.timer)
+    await entry.running
+  }
+
+  private toInfo(entry: ScheduleEntry): ScheduleInfo {
+    const { definition, lastRunAt } = entry
+
+    return {
+      name: entry.name,
+      topic: String(definition.topic),
+      cron: definition.cron,
+      everyMs: definition.everyMs,
+      missedTicks: definition.missedTicks ?? 'skip',
+      nextRunAt: entry.stopped ? undefined : new Date(entry.nextTick).toISOString(),
+      lastRunAt: lastRunAt !== undefined ? new Date(lastRunAt).toISOString() : undefined,
+      runs: entry.runs,
+      lastError: entry.lastError,
+    }
+  }
+}
+
+/**
+ * Next-tick function of a definition
+ * @throws Error if it has neither or both of `cron` / `everyMs`, or they are invalid
+ */
+function getTickSource(
+  name: string,
+  definition: ScheduleDefinition<any, any>
+): (after: number) => number {
+  const { cron, everyMs } = definition
+
+  if ((cron === undefined) === (everyMs === undefined)) {
+    throw new Error(`Schedule ${name} needs exactly one of cron / everyMs`)
+  }
+
+  if (everyMs !== undefined) {
+    if (!Number.isInteger(everyMs) || everyMs <= 0) {
+      throw new RangeError(`Schedule ${name}: everyMs must be a positive integer, got ${everyMs}`)
+    }
+    return (after) => (Math.floor(after / everyMs) + 1) * everyMs
+  }
+
+  const expression = parseCron(cron!)
+  nextCronTime(expression, Date.now()) // Throws if it never matches
+  return (after) => nextCronTime(expression, after)
+}
@@ -0,0 +1,167 @@
+/**
+ * Retry backoff policies for consumers
+ */
+
+import type { MessageEnvelope } from './message-envelope'
+import type { ErrorClassifier } from './errors'
+import { classifyError } from './errors'
+
+/**
+ * Outcome of a retry policy for a failed attempt:
+ * - number: retry after this delay (ms)
+ * - 'dlq': stop retrying and send to the dead letter queue
+ * - 'drop': stop retrying and acknowledge (discard) the message
+ */
+export type RetryDecision = number | 'dlq' | 'drop'
+
+/**
+ * Custom retry policy
+ * @param attempt The attempt that just failed (1-based)
+ */
+export type RetryFunction<TPayload = any> = (
+  attempt: number,
+  error: Error,
+  envelope: MessageEnvelope<TPayload>
+) => RetryDecision
+
+/**
+ * Same delay before every retry
+ */
+export interface FixedRetryPolicy {
+  type: 'fixed'
+  delayMs: number
+}
+
+/**
+ * Delay grows by `delayMs` per attempt (delayMs, 2 * delayMs, ...)
+ */
+export interface LinearRetryPolicy {
+  type: 'linear'
+  delayMs: number
+  maxDelayMs?: number
+}
+
+/**
+ * Delay multiplied by `factor` per attempt (baseDelayMs, baseDelayMs * factor, ...)
+ */
+export interface ExponentialRetryPolicy {
+  type: 'exponential'
+  baseDelayMs: number
+
+  /** Growth factor (default: 2) */
+  factor?: number
+
+  /** Upper bound for the delay */
+  maxDelayMs?: number
+
+  /** Full jitter: pick a random delay between 0 and the computed delay (default: true) */
+  jitter?: boolean
+}
+
+/**
+ * Retry policy (declarative or custom function)
+ */
+export type RetryPolicy<TPayload = any> =
+  | FixedRetryPolicy
+  | LinearRetryPolicy
+  | ExponentialRetryPolicy
+  | RetryFunction<TPayload>
+
+/**
+ * Where retries wait:
+ * - 'inline': the consumer sleeps and retries in-process (blocks that message slot)
+ * - 'broker': the message is acknowledged and re-scheduled on the broker after the delay
+ */
+export type RetryMode = 'inline' | 'broker'
+
+/**
+ * Compute the retry decision for a failed attempt
+ */
+export function resolveRetryDecision<TPayload>(
+  policy: RetryPolicy<TPayload>,
+  attempt: number,
+  error: Error,
+  envelope: MessageEnvelope<TPayload>
+): RetryDecision {
+  if (typeof policy === 'function') {
+    return policy(attempt, error, envelope)
+  }
+
+  switch (policy.type) {
+    case 'fixed':
+      return policy.delayMs
+
+    case 'linear':
+      return capDelay(policy.delayMs * attempt, policy.maxDelayMs)
+
+    case 'exponential': {
+      const { baseDelayMs, factor = 2, maxDelayMs, jitter = true } = policy
+      const delay = capDelay(baseDelayMs * factor ** (attempt - 1), maxDelayMs)
+      return jitter ? Math.floor(Math.random() * delay) : delay
+    }
+  }
+}
+
+/**
+ * Resolve the effective policy from consumer options
+ * (`retry` wins over the legacy `retryDelayMs`)
+ */
+export function getRetryPolicy(options: {
+  retry?: RetryPolicy
+  retryDelayMs?: number
+}): RetryPolicy {
+  return options.retry ?? { type: 'fixed', delayMs: options.retryDelayMs ?? 0 }
+}
+
+/**
+ * Final decision for a failed attempt (surfaced to consumer hooks)
+ */
+export type FailureDecision =
+  | { action: 'retry'; delayMs: number }
+  | { action: 'dlq'; reason: 'max-retries' | 'non-retryable' | 'retry-policy' }
+  | { action: 'drop'; reason: 'discarded' | 'retry-policy' }
+
+/**
+ * Decide what to do with a failed attempt: error classification first,
+ * then the maxRetries budget, then the retry policy
+ */
+export function decideOnFailure<TPayload>(params: {
+  error: Error
+  envelope: MessageEnvelope<TPayload>
+  attempt: number
+  maxRetries: number
+  policy: RetryPolicy<TPayload>
+  classifyError?: ErrorClassifier<TPayload>
+}): FailureDecision {
+  const { error, envelope, attempt, maxRetries, policy } = params
+  const classification =
+    params.classifyError?.(error, { envelope, attempt }) ?? classifyError(error)
+
+  if (classification === 'drop') {
+    return { action: 'drop', reason: 'discarded' }
+  }
+
+  if (classification === 'dlq') {
+    return { action: 'dlq', reason: 'non-retryable' }
+  }
+
+  if (attempt >= maxRetries) {
+    return { action: 'dlq', reason: 'max-retries' }
+  }
+
+  if (typeof classification === 'object') {
+    return { action: 'retry', delayMs: classification.retryAfterMs }
+  }
+
+  const decision = resolveRetryDecision(policy, attempt, error, envelope)
+
+  if (decision === 'dlq' || decision === 'drop') {
+    return { action: decision, reason: 'retry-policy' }
+  }
+
+  return { action: 'retry', delayMs: decision }
+}
+
+function capDelay(delayMs: number, maxDelayMs?: number): number {
+  return maxDelayMs !== undefined ? Math.min(delayMs, maxDelayMs) : delayMs
+}
@@ -0,0 +1,41 @@
+/**
+ * Port for recurring schedule coordination
+ * Makes each tick of a schedule fire once across every replica
+ */
+export interface ScheduleStore {
+  /**
+   * Claim a tick of a schedule (only one caller wins per schedule and tick)
+   * The winner also records it as the schedule's last tick.
+   * @param name Schedule name
+   * @param tick Scheduled time of the tick (epoch ms)
+   * @param ttlMs How long the claim is kept
+   * @returns true if this caller should publish the tick
+   */
+  claim(name: string, tick: number, ttlMs: number): Promise<boolean>
+
+  /**
+   * Give up a claimed tick that failed to publish, so it can be claimed again
+   * @param name Schedule name
+   * @param tick Claimed tick (epoch ms)
+   * @param lastTick Last tick to restore if `tick` was recorded as the last one
+   */
+  release(name: string, tick: number, lastTick?: number): Promise<void>
+
+  /**
+   * Last claimed tick of a schedule (used to catch up missed ticks)
+   * @param name Schedule name
+   * @returns epoch ms, or undefined if it never fired
+   */
+  getLastTick(name: string): Promise<number | undefined>
+
+  /**
+   * Forget the last tick of a schedule
+   * @param name Schedule name
+   */
+  clear(name: string): Promise<void>
+
+  /**
+   * Close the store connection
+   */
+  close(): Promise<void>
+}
@@ -0,0 +1,186 @@
+/**
+ * Subscription lifecycle and stats shared by consumer adapters
+ */
+
+import type {
+  ConsumerCloseOptions,
+  Subscription,
+  SubscriptionStats,
+  SubscriptionStatus,
+} from './message-consumer.port'
+import type { ConcurrencyLimiter } from './concurrency'
+
+/**
+ * Outcome of one delivery, as counted in SubscriptionStats
+ */
+export type DeliveryOutcome = 'processed' | 'failed' | 'deadLettered'
+
+/**
+ * Identity of a subscription
+ */
+export interface SubscriptionInfo {
+  topic: string
+  consumerGroup: string
+  consumerName: string
+}
+
+/**
+ * Subscription handle backed by an adapter's consume loop
+ *
+ * The adapter's loop polls `isActive` / `waitWhilePaused()` and reports reads, loop errors
+ * and deliveries;
+ * `stop()` runs the adapter's drain routine once.
+ */
+export class SubscriptionControl implements Subscription {
+  readonly topic: string
+  readonly consumerGroup: string
+  readonly consumerName: string
+
+  private currentStatus: SubscriptionStatus = 'running'
+  private resumeWaiters: Array<() => void> = []
+  private stopping?: Promise<void>
+  private readonly counters = {
+    received: 0,
+    processed: 0,
+    failed: 0,
+    deadLettered: 0,
+  }
+  private readonly startedAt = new Date().toISOString()
+  private lastMessageAt?: string
+  private lastPollAt?: string
+  private lastError?: { message: string; at: string }
+  private consecutiveErrors = 0
+  private handlerWaits = 0
+
+  /**
+   * @param info Topic, group and consumer name
+   * @param limiter Concurrency limiter of the subscription (for `inFlight`)
+   * @param drain Adapter routine that stops the loop and drains in-flight handlers
+   */
+  constructor(
+    info: SubscriptionInfo,
+    private readonly limiter: ConcurrencyLimiter,
+    private readonly drain: (options: ConsumerCloseOptions) => Promise<void>
+  ) {
+    this.topic = info.topic
+    this.consumerGroup = info.consumerGroup
+    this.consumerName = info.consumerName
+  }
+
+  get status(): SubscriptionStatus {
+    return this.currentStatus
+  }
+
+  /** True while the loop should keep going (running or paused) */
+  get isActive(): boolean {
+    return this.currentStatus === 'running' || this.currentStatus === 'paused'
+  }
+
+  get stats(): SubscriptionStats {
+    return {
+      ...this.counters,
+      inFlight: this.limiter.inFlight,
+      startedAt: this.startedAt,
+      lastMessageAt: this.lastMessageAt,
+      lastPollAt: this.lastPollAt,
+      lastError: this.lastError,
+      consecutiveErrors: this.consecutiveErrors,
+      waitingForHandlers: this.handlerWaits > 0,
+    }
+  }
+
+  get concurrency(): number {
+    return this.limiter.limit
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.limiter.setLimit(concurrency)
+  }
+
+  pause(): void {
+    if (this.currentStatus === 'running') {
+      this.currentStatus = 'paused'
+    }
+  }
+
+  resume(): void {
+    if (this.currentStatus === 'paused') {
+      this.currentStatus = 'running'
+      this.wakeResumeWaiters()
+    }
+  }
+
+  stop(options: ConsumerCloseOptions = {}): Promise<void> {
+    if (!this.stopping) {
+      this.currentStatus = 'stopping'
+      this.wakeResumeWaiters()
+      this.stopping = this.drain(options).finally(() => {
+        this.currentStatus = 'stopped'
+      })
+    }
+    return this.stopping
+  }
+
+  /**
+   * Resolve once the subscription is no longer paused (resumed or stopping)
+   */
+  async waitWhilePaused(): Promise<void> {
+    while (this.currentStatus === 'paused') {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve))
+    }
+  }
+
+  /**
+   * Count a delivery handed to the handler
+   */
+  received(): void {
+    this.counters.received++
+    this.lastMessageAt = new Date().toISOString()
+  }
+
+  /**
+   * Count how a delivery ended
+   */
+  record(outcome: DeliveryOutcome): void {
+    this.counters[outcome]++
+  }
+
+  /**
+   * Record a completed read from the broker (resets the loop error streak)
+   */
+  polled(): void {
+    this.lastPollAt = new Date().toISOString()
+    this.consecutiveErrors = 0
+  }
+
+  /**
+   * Wait for room among the queued handlers; the loop reads nothing meanwhile, so it is
+   * reported as busy rather than stuck (and counts as polled once the wait is over)
+   */
+  async waitForHandlers(wait: Promise<boolean>): Promise<boolean> {
+    this.handlerWaits++
+    try {
+      return await wait
+    } finally {
+      this.handlerWaits--
+      this.lastPollAt = new Date().toISOString()
+    }
+  }
+
+  /**
+   * Record an error thrown by the consume loop
+   */
+  loopFailed(error: unknown): void {
+    this.consecutiveErrors++
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString(),
+    }
+  }
+
+  private wakeResumeWaiters(): void {
+    const waiters = this.resumeWaiters
+    this.resumeWaiters = []
+    waiters.forEach((resolve) => resolve())
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Trace context propagation (W3C traceparent / tracestate) through envelopes
+ */
+
+import type { MessageEnvelope } from './message-envelope'
+
+/**
+ * W3C trace context carried by an envelope
+ */
+export interface TraceContext {
+  traceparent?: string
+  tracestate?: string
+}
+
+/**
+ * Span attributes (OpenTelemetry messaging semantic conventions)
+ */
+export type SpanAttributes = Record<string, string | number | undefined>
+
+/**
+ * Span handed to a traced consumer
+ */
+export interface TraceSpan {
+  /** Record an error on the span and mark it as failed */
+  recordError(error: Error): void
+}
+
+/**
+ * Pluggable tracer used by the publish path and wrapHandler
+ */
+export interface MessagingTracer {
+  /**
+   * Run a publish inside a producer span
+   * @param fn Receives the trace context to inject into the envelope
+   */
+  tracePublish<T>(
+    topic: string,
+    attributes: SpanAttributes,
+    fn: (context: TraceContext) => Promise<T>
+  ): Promise<T>
+
+  /**
+   * Run a handler inside a consumer span, child of the envelope's trace context
+   */
+  traceConsume<T>(
+    topic: string,
+    context: TraceContext,
+    attributes: SpanAttributes,
+    fn: (span: TraceSpan) => Promise<T>
+  ): Promise<T>
+}
+
+const noopSpan: TraceSpan = {
+  recordError: () => {},
+}
+
+/**
+ * Tracer that records nothing and injects no trace context
+ */
+export const noopTracer: MessagingTracer = {
+  tracePublish: (_topic, _attributes, fn) => fn({}),
+  traceConsume: (_topic, _context, _attributes, fn) => fn(noopSpan),
+}
+
+/**
+ * Subset of `@opentelemetry/api` used by the OpenTelemetry tracer
+ */
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string, version?: string): {
+      startActiveSpan<F extends (span: any) => unknown>(
+        name: string,
+        options: { kind?: number; attributes?: Record<string, string | number> },
+        context: unknown,
+        fn: F
+      ): ReturnType<F>
+    }
+  }
+  context: {
+    active(): unknown
+  }
+  propagation: {
+    inject(context: unknown, carrier: Record<string, string>): void
+    extract(context: unknown, carrier: Record<string, string>): unknown
+  }
+  SpanKind: { PRODUCER: number; CONSUMER: number }
+  SpanStatusCode: { ERROR: number }
+}
+
+const TRACER_NAME = 'elysia-messaging'
+
+/**
+ * Tracer backed by `@opentelemetry/api` (spans go to the globally registered SDK)
+ *
+ * @example
+ * ```ts
+ * import * as otel from '@opentelemetry/api'
+ * messaging({ registry, bus, tracer: createOpenTelemetryTracer(otel) })
+ * ```
+ */
+export function createOpenTelemetryTracer(api: OpenTelemetryApi): MessagingTracer {
+  const tracer = api.trace.getTracer(TRACER_NAME)
+
+  const runInSpan = <T>(
+    name: string,
+    kind: number,
+    parent: unknown,
+    attributes: SpanAttributes,
+    fn: (span: any) => Promise<T>
+  ): Promise<T> => {
+    const options = { kind, attributes: definedAttributes(attributes) }
+
+    return tracer.startActiveSpan(name, options, parent, async (span) => {
+      try {
+        return await fn(span)
+      } catch (error) {
+        recordSpanError(api, span, error as Error)
+        throw error
+      } finally {
+        span.end()
+      }
+    })
+  }
+
+  return {
+    tracePublish: (topic, attributes, fn) =>
+      runInSpan(`${topic} publish`, api.SpanKind.PRODUCER, api.context.active(), attributes, () => {
+        const carrier: Record<string, string> = {}
+        api.propagation.inject(api.context.active(), carrier)
+        return fn({
+          ...(carrier.traceparent && { traceparent: carrier.traceparent }),
+          ...(carrier.tracestate && { tracestate: carrier.tracestate }),
+        })
+      }),
+
+    traceConsume: (topic, context, attributes, fn) => {
+      const carrier: Record<string, string> = {}
+      if (context.traceparent) carrier.traceparent = context.traceparent
+      if (context.tracestate) carrier.tracestate = context.tracestate
+
+      const parent = api.propagation.extract(api.context.active(), carrier)
+      return runInSpan(`${topic} process`, api.SpanKind.CONSUMER, parent, attributes, (span) =>
+        fn({ recordError: (error) => recordSpanError(api, span, error) })
+      )
+    },
+  }
+}
+
+function recordSpanError(api: OpenTelemetryApi, span: any, error: Error): void {
+  span.recordException(error)
+  span.setStatus({ code: api.SpanStatusCode.ERROR, message: error.message })
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, string | number> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(
+      (entry): entry is [string, string | number] => entry[1] !== undefined
+    )
+  )
+}
+
+// Kept in a variable so bundlers and tsc don't require the optional dependency
+const OPENTELEMETRY_MODULE = '@opentelemetry/api'
+
+let detectedTracer: Promise<MessagingTracer> | undefined
+
+/**
+ * Load `@opentelemetry/api` if installed (once), falling back to the no-op tracer
+ */
+export function detectTracer(): Promise<MessagingTracer> {
+  detectedTracer ??= import(OPENTELEMETRY_MODULE).then(
+    (api) => createOpenTelemetryTracer(api.trace ? api : api.default),
+    () => noopTracer
+  )
+  return detectedTracer
+}
+
+/**
+ * Default tracer: OpenTelemetry when `@opentelemetry/api` is installed, no-op otherwise
+ */
+export const defaultTracer: MessagingTracer = {
+  tracePublish: async (topic, attributes, fn) =>
+    (await detectTracer()).tracePublish(topic, attributes, fn),
+  traceConsume: async (topic, context, attributes, fn) =>
+    (await detectTracer()).traceConsume(topic, context, attributes, fn),
+}
+
+/**
+ * Trace context carried by an envelope
+ */
+export function getTraceContext(envelope: MessageEnvelope<any>): TraceContext {
+  return { traceparent: envelope.traceparent, tracestate: envelope.tracestate }
+}
@@ -24,6 +24,10 @@ export * from './core/message-envelope'
 export * from './core/message-bus.port'
 export * from './core/message-consumer.port'
 export * from './core/dedupe-store.port'
+export * from './core/dead-letter-queue.port'
+export * from './core/broker-inspector.port'
+export * from './core/schedule-store.port'
+export * from './core/outbox-store.port'
 
 // Core exports - Topics (backward compatibility)
 export * from './core/topics'
@@ -32,6 +36,16 @@ export * from './core/topics'
 export * from './core/registry'
 export * from './core/consumer-descriptor'
 export * from './core/publisher-helper'
+export * from './core/retry-policy'
+export * from './core/errors'
+export * from './core/handler-wrapper'
+export * from './core/consumer-manager'
+export * from './core/health-check'
+export * from './core/metrics'
+export * from './core/tracing'
+export * from './core/cron'
+export * from './core/recurring-scheduler'
+export * from './core/outbox'
 
 // Explicit exports for most commonly used items
 export { 
@@ -59,8 +73,11 @@ export {
 } from './core/consumer-descriptor'
 
 // Plugins
-export { messaging } from './plugin-client'
+export { messaging, createMessagingClient } from './plugin-client'
 export { messagingConsumers } from './plugin-consumers'
+export { messagingAdmin } from './plugin-admin'
+export { messagingHealth } from './plugin-health'
+export { messagingMetrics } from './plugin-metrics'
 
 // Type helpers
 export type {
@@ -74,6 +91,19 @@ export type {
   ConsumerResolver,
 } from './plugin-consumers'
 
+export type {
+  MessagingAdminConfig,
+  AdminRequestContext,
+} from './plugin-admin'
+
+export type { MessagingHealthConfig } from './plugin-health'
+
+export type { MessagingMetricsConfig } from './plugin-metrics'
+
 // Note: Redis Streams adapter is available via subpath export:
 // import { RedisStreamsBus, ... } from 'elysia-messaging/redis-streams'
+// In-memory adapter (tests, local dev):
+// import { InMemoryBroker, InMemoryBus, ... } from 'elysia-messaging/memory'
+// SQLite transactional outbox:
+// import { SqliteOutboxStore } from 'elysia-messaging/sqlite'
 
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './core/registry'
+import type { BrokerInspector } from './core/broker-inspector.port'
+import { messagingAdmin } from './plugin-admin'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+  },
+})
+
+/**
+ * Inspector recording the count of each getRecentMessages() call
+ */
+function countingInspector(counts: Array<number | undefined>): BrokerInspector {
+  return {
+    async getTopicInfo(topic) {
+      return { topic, length: 0, groups: [] }
+    },
+    async getRecentMessages(_topic, count) {
+      counts.push(count)
+      return []
+    },
+  }
+}
+
+const get = (app: { handle(request: Request): Promise<Response> }, path: string) =>
+  app.handle(new Request(`http://localhost/messaging${path}`))
+
+describe('messagingAdmin', () => {
+  test('rejects every request without an authorize guard', async () => {
+    const app = messagingAdmin({ registry })
+
+    expect((await get(app, '/topics')).status).toBe(401)
+    expect((await get(messagingAdmin({ registry, insecure: true }), '/topics')).status).toBe(200)
+  })
+
+  test('runs the authorize guard', async () => {
+    const app = messagingAdmin({
+      registry,
+      authorize: ({ headers }) => headers['x-admin-token'] === 'secret',
+    })
+    const request = (token: string) =>
+      app.handle(
+        new Request('http://localhost/messaging/topics', { headers: { 'x-admin-token': token } })
+      )
+
+    expect((await request('secret')).status).toBe(200)
+    expect((await request('guess')).status).toBe(401)
+  })
+
+  test('caps count and rejects non-positive values', async () => {
+    const counts: Array<number | undefined> = []
+    const app = messagingAdmin({ registry, inspector: countingInspector(counts), insecure: true })
+
+    expect((await get(app, '/topics/video.jobs/messages?count=5000')).status).toBe(200)
+    expect((await get(app, '/topics/video.jobs/messages?count=20')).status).toBe(200)
+    expect((await get(app, '/topics/video.jobs/messages')).status).toBe(200)
+    expect(counts).toEqual([1000, 20, undefined])
+
+    expect((await get(app, '/topics/video.jobs/messages?count=0')).status).toBe(400)
+    expect((await get(app, '/topics/video.jobs/messages?count=-5')).status).toBe(400)
+    expect((await get(app, '/topics/video.jobs/messages?count=ten')).status).toBe(400)
+    expect(counts).toHaveLength(3)
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Messaging admin plugin
+ * HTTP routes to inspect topics, browse messages, manage the DLQ and pause/resume consumers
+ */
+
+import { Elysia } from 'elysia'
+import type { BrokerInspector } from './core/broker-inspector.port'
+import type { DeadLetterQueue } from './core/dead-letter-queue.port'
+import type { ConsumerManager } from './core/consumer-manager'
+import type { TopicRegistry } from './core/registry.types'
+
+/** Largest `?count=` served by the message and DLQ listings */
+const MAX_COUNT = 1000
+
+/**
+ * Request context passed to the auth guard
+ */
+export interface AdminRequestContext {
+  request: Request
+  headers: Record<string, string | undefined>
+  path: string
+}
+
+/**
+ * Messaging admin configuration
+ */
+export interface MessagingAdminConfig<TRegistry extends TopicRegistry<any>> {
+  /** Topic registry (source of the topic list) */
+  registry: TRegistry
+
+  /** Broker inspector for stream length, groups, lag and recent messages */
+  inspector?: BrokerInspector
+
+  /** Dead letter queue to browse, redrive and delete from */
+  dlq?: DeadLetterQueue
+
+  /** Consumer manager (default: the `consumers` decorator of messagingConsumers, if present) */
+  consumers?: ConsumerManager<TRegistry>
+
+  /**
+   * Auth guard: return false to reject the request with 401
+   * Without a guard every request is rejected, unless `insecure` is set
+   */
+  authorize?: (ctx: AdminRequestContext) => boolean | Promise<boolean>
+
+  /** Serve the routes without an auth guard (local development only) */
+  insecure?: boolean
+
+  /** Route prefix (default: '/messaging') */
+  prefix?: string
+
+  /** Plugin name (for multiple instances) */
+  name?: string
+}
+
+/**
+ * Messaging admin plugin
+ *
+ * Routes (under `prefix`):
+ * - `GET /topics`, `GET /topics/:topic`, `GET /topics/:topic/messages?count=`
+ * - `GET /dlq?count=&topic=&after=`, `GET /dlq/:id`, `POST /dlq/:id/redrive`, `DELETE /dlq/:id`
+ * - `GET /consumers`, `POST /consumers/:id/pause`, `POST /consumers/:id/resume`
+ *
+ * Every route answers 401 until `authorize` is set (or `insecure: true`).
+ * `count` is capped at 1000.
+ *
+ * @example
+ * ```ts
+ * const app = new Elysia()
+ *   .use(messagingConsumers({ consumers, consumer: redisConsumer }))
+ *   .use(messagingAdmin({
+ *     registry,
+ *     inspector: new RedisStreamsInspector(redis),
+ *     dlq: redisConsumer.dlq,
+ *     authorize: ({ headers }) => headers['x-admin-token'] === process.env.ADMIN_TOKEN,
+ *   }))
+ * ```
+ */
+export const messagingAdmin = <TRegistry extends TopicRegistry<any>>(
+  config: MessagingAdminConfig<TRegistry>
+) => {
+  const {
+    registry,
+    inspector,
+    dlq,
+    authorize,
+    insecure = false,
+    prefix = '/messaging',
+    name = 'admin',
+  } = config
+  const topics = Object.keys(registry.topics)
+
+  if (!authorize && !insecure) {
+    console.warn(
+      '[messagingAdmin] No authorize guard: every route answers 401 (set authorize or insecure)'
+    )
+  }
+
+  const isKnownTopic = (topic: string) => topics.includes(topic)
+
+  const getConsumers = (ctx: unknown): ConsumerManager<TRegistry> | undefined =>
+    config.consumers ?? (ctx as any).consumers
+
+  const fail = (set: { status?: number | string }, status: number, error: string) => {
+    set.status = status
+    return { error }
+  }
+
+  const controlConsumer = (
+    ctx: { params: { id: string }; set: { status?: number | string } },
+    action: 'pause' | 'resume'
+  ) => {
+    const consumers = getConsumers(ctx)
+    const info = consumers?.get(ctx.params.id)
+
+    if (!consumers) return fail(ctx.set, 501, 'No consumer manager available')
+    if (!info) return fail(ctx.set, 404, `Unknown consumer: ${ctx.params.id}`)
+    if (info.status === 'registered') return fail(ctx.set, 409, `Consumer not started: ${info.id}`)
+
+    return consumers[action](info.id)
+  }
+
+  /**
+   * `?count=` capped at MAX_COUNT (undefined when absent, null when not a positive integer)
+   */
+  const parseCount = (value: string | undefined): number | undefined | null => {
+    if (value === undefined || value === '') return undefined
+
+    const count = Number(value)
+    return Number.isInteger(count) && count > 0 ? Math.min(count, MAX_COUNT) : null
+  }
+
+  return new Elysia({
+    name: `elysia-messaging:admin${name !== 'admin' ? `:${name}` : ''}`,
+    seed: config,
+    prefix,
+  })
+    .onBeforeHandle(async ({ request, headers, path, set }) => {
+      const allowed = authorize ? await authorize({ request, headers, path }) : insecure
+      return allowed ? undefined : fail(set, 401, 'Unauthorized')
+    })
+
+    // Topics
+    .get('/topics', async () =>
+      Promise.all(
+        topics.map(async (topic) => ({
+          topic,
+          messageType: registry.topics[topic].messageType ?? topic,
+          description: registry.topics[topic].description,
+          ...(inspector ? await inspector.getTopicInfo(topic) : {}),
+        }))
+      )
+    )
+    .get('/topics/:topic', async ({ params, set }) => {
+      if (!isKnownTopic(params.topic)) return fail(set, 404, `Unknown topic: ${params.topic}`)
+      if (!inspector) return fail(set, 501, 'No broker inspector configured')
+
+      return inspector.getTopicInfo(params.topic)
+    })
+    .get('/topics/:topic/messages', async ({ params, query, set }) => {
+      if (!isKnownTopic(params.topic)) return fail(set, 404, `Unknown topic: ${params.topic}`)
+      if (!inspector) return fail(set, 501, 'No broker inspector configured')
+
+      const count = parseCount(query.count)
+      if (count === null) return fail(set, 400, 'count must be a positive integer')
+
+      return inspector.getRecentMessages(params.topic, count)
+    })
+
+    // Dead letter queue
+    .get('/dlq', async ({ query, set }) => {
+      if (!dlq) return fail(set, 501, 'No dead letter queue configured')
+
+      const count = parseCount(query.count)
+      if (count === null) return fail(set, 400, 'count must be a positive integer')
+
+      const [size, entries] = await Promise.all([
+        dlq.size(),
+        dlq.list({ count, topic: query.topic, after: query.after }),
+      ])
+      return { size, entries }
+    })
+    .get('/dlq/:id', async ({ params, set }) => {
+      if (!dlq) return fail(set, 501, 'No dead letter queue configured')
+
+      const entry = await dlq.get(params.id)
+      return entry ?? fail(set, 404, `DLQ entry not found: ${params.id}`)
+    })
+    .post('/dlq/:id/redrive', async ({ params, set }) => {
+      if (!dlq) return fail(set, 501, 'No dead letter queue configured')
+
+      const envelope = await dlq.redrive(params.id)
+      return envelope
+        ? { redriven: true, envelope }
+        : fail(set, 404, `DLQ entry not found: ${params.id}`)
+    })
+    .delete('/dlq/:id', async ({ params, set }) => {
+      if (!dlq) return fail(set, 501, 'No dead letter queue configured')
+
+      const deleted = await dlq.delete(params.id)
+      return deleted ? { deleted: true } : fail(set, 404, `DLQ entry not found: ${params.id}`)
+    })
+
+    // Consumers
+    .get('/consumers', (ctx) => {
+      const consumers = getConsumers(ctx)
+      if (!consumers) return fail(ctx.set, 501, 'No consumer manager available')
+
+      return consumers.list()
+    })
+    .post('/consumers/:id/pause', (ctx) => controlConsumer(ctx, 'pause'))
+    .post('/consumers/:id/resume', (ctx) => controlConsumer(ctx, 'resume'))
+}
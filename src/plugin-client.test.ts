@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from './core/registry'
+import type { MessageBus } from './core/message-bus.port'
+import { InMemoryDedupeStore } from './adapters/memory/memory-dedupe.store'
+import { createMessagingClient } from './plugin-client'
+import { RecordingBus } from './testing'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+  },
+})
+
+/**
+ * Bus taking `delayMs` per publish, failing the first `failures` ones
+ */
+function slowBus(delayMs: number, failures = 0): MessageBus {
+  let calls = 0
+  return {
+    async publish() {
+      await Bun.sleep(delayMs)
+      if (++calls <= failures) {
+        throw new Error('broker down')
+      }
+    },
+    async close() {},
+  }
+}
+
+describe('publish idempotency keys', () => {
+  test('publishes a duplicate sent while the first is in flight only once', async () => {
+    const bus = new RecordingBus(slowBus(30))
+    const messaging = createMessagingClient({ registry, bus, dedupe: new InMemoryDedupeStore() })
+    const meta = { idempotencyKey: 'upload-1' }
+
+    let firstDone = false
+    const first = messaging.publish('video.jobs', { videoId: 'v1' }, meta).then(() => {
+      firstDone = true
+    })
+    await Bun.sleep(5)
+    await messaging.publish('video.jobs', { videoId: 'v1' }, meta)
+
+    // The duplicate resolved only once the first publish had been recorded
+    expect(firstDone).toBe(true)
+    await first
+    expect(bus.published('video.jobs')).toHaveLength(1)
+  })
+
+  test('publishes the waiting duplicate when the first publish fails', async () => {
+    const bus = new RecordingBus(slowBus(30, 1))
+    const messaging = createMessagingClient({ registry, bus, dedupe: new InMemoryDedupeStore() })
+    const meta = { idempotencyKey: 'upload-1' }
+
+    const first = messaging.publish('video.jobs', { videoId: 'v1' }, meta)
+    await Bun.sleep(5)
+    const duplicate = messaging.publish('video.jobs', { videoId: 'v1' }, meta)
+
+    await expect(first).rejects.toThrow('broker down')
+    await duplicate
+    expect(bus.published('video.jobs')).toHaveLength(1)
+  })
+
+  test('requires a dedupe store without an outbox', async () => {
+    const messaging = createMessagingClient({ registry, bus: new RecordingBus() })
+
+    await expect(
+      messaging.publish('video.jobs', { videoId: 'v1' }, { idempotencyKey: 'upload-1' })
+    ).rejects.toThrow('dedupe store')
+  })
+})
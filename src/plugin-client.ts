@@ -6,8 +6,25 @@
 import { Elysia } from 'elysia'
 import type { MessageBus } from './core/message-bus.port'
 import type { DedupeStore } from './core/dedupe-store.port'
+import {
+  acquireDedupeLease,
+  completeDedupeLease,
+  releaseDedupeLease,
+} from './core/dedupe-store.port'
 import type { TopicRegistry, TopicName, TopicPayload } from './core/registry.types'
-import { createPublishFunction } from './core/publisher-helper'
+import type { PublishMeta } from './core/publisher-helper'
+import { createPublishFunction, createPublishBatchFunction } from './core/publisher-helper'
+import type { MessageEnvelope } from './core/message-envelope'
+import { PublishBatchError } from './core/errors'
+import type { MessagingMetrics } from './core/metrics'
+import type { MessagingTracer } from './core/tracing'
+import type { ScheduleStore } from './core/schedule-store.port'
+import type { ScheduleDefinition, ScheduleInfo } from './core/recurring-scheduler'
+import { RecurringScheduler } from './core/recurring-scheduler'
+import type { OutboxStore } from './core/outbox-store.port'
+import type { OutboxRelayOptions } from './core/outbox'
+import { OutboxBus, OutboxRelay } from './core/outbox'
+import { sleep } from './core/concurrency'
 
 /**
  * Messaging client configuration
@@ -19,9 +36,12 @@ export interface MessagingClientConfig<TRegistry extends TopicRegistry<any>> {
   /** Message bus adapter (or resolver) */
   bus: MessageBus | BusResolver<TRegistry>
 
-  /** Optional dedupe store for idempotency */
+  /** Optional dedupe store for idempotency (required by `idempotencyKey` in publish meta) */
   dedupe?: DedupeStore
 
+  /** How long a publish `idempotencyKey` suppresses duplicates (seconds, default: 24h) */
+  publishDedupeTtl?: number
+
   /** Hooks for observability */
   hooks?: {
     onPublish?: <TTopic extends TopicName<TRegistry>>(
@@ -36,6 +56,34 @@ export interface MessagingClientConfig<TRegistry extends TopicRegistry<any>> {
     ) => Promise<void> | void
   }
 
+  /** Built-in metrics (publish count, latency and errors per topic) */
+  metrics?: MessagingMetrics
+
+  /** Tracer for producer spans (default: OpenTelemetry if installed, no-op otherwise) */
+  tracer?: MessagingTracer
+
+  /**
+   * Request header(s) to stamp as `correlationId` on every message published while
+   * handling a request (first header present wins; `traceparent` contributes its trace ID).
+   * When set, routes get a request-scoped client instead of the shared one.
+   */
+  correlationHeader?: string | string[]
+
+  /**
+   * Store claiming each tick of a recurring publisher once across replicas
+   * (default: every process publishes every tick)
+   */
+  scheduleStore?: ScheduleStore
+
+  /**
+   * Transactional outbox: publishes are written to this store (in the caller's
+   * database transaction) and relayed to `bus` by an OutboxRelay
+   */
+  outbox?: OutboxStore<any>
+
+  /** Relay settings, or false when the relay runs in another process (default: relay on start) */
+  outboxRelay?: Omit<OutboxRelayOptions, 'store' | 'bus'> | false
+
   /** Plugin name (for multiple instances) */
   name?: string
 }
@@ -54,42 +102,88 @@ export interface MessagingClient<TRegistry extends TopicRegistry<any>> {
   /** Topic registry */
   registry: TRegistry
 
-  /** Publish a message to a topic (type-safe) */
+  /**
+   * Publish a message to a topic (type-safe)
+   * With `meta.idempotencyKey`, a duplicate key on the topic within the dedupe window is not
+   * published again; a duplicate sent while the first publish is in flight waits for its
+   * outcome. In outbox mode the outbox enforces the key instead (a rolled-back write frees it)
+   */
   publish<TTopic extends TopicName<TRegistry>>(
     topic: TTopic,
     payload: TopicPayload<TRegistry, TTopic>,
-    meta?: {
-      jobId?: string
-      correlationId?: string
-      causationId?: string
-    }
+    meta?: PublishMeta
   ): Promise<void>
 
+  /**
+   * Publish several messages to a topic in one round trip (when the bus supports it)
+   * Every payload is validated first; `meta` applies to every message (no idempotencyKey).
+   * @returns Published envelopes, in order
+   * @throws ValidationError if any payload is invalid (nothing published)
+   * @throws PublishBatchError if some messages failed (each one is reported to onPublishError)
+   */
+  publishBatch<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    payloads: TopicPayload<TRegistry, TTopic>[],
+    meta?: PublishMeta
+  ): Promise<MessageEnvelope<TopicPayload<TRegistry, TTopic>>[]>
+
+  /**
+   * Cancel a delayed message (published with `delayMs` / `deliverAt`) before delivery
+   * @returns true if it was still scheduled (false if delivered, unknown or unsupported by the bus)
+   */
+  cancelScheduled(topic: TopicName<TRegistry>, eventId: string): Promise<boolean>
+
+  /**
+   * Publish to a topic on a cron expression or fixed interval until unscheduled
+   * @throws Error if the name is taken or the definition is invalid
+   */
+  schedule<TTopic extends TopicName<TRegistry>>(
+    name: string,
+    definition: ScheduleDefinition<TRegistry, TTopic>
+  ): ScheduleInfo
+
+  /** Recurring publishers (list, get, remove) */
+  schedules: RecurringScheduler<TRegistry>
+
   /** Get the bus for a topic */
   getBus(topic: TopicName<TRegistry>): MessageBus
 
+  /**
+   * Derive a client whose publishes default to `meta`
+   * (values passed to publish() still win)
+   */
+  withContext(meta: PublishMeta): MessagingClient<TRegistry>
+
+  /**
+   * Derive a client whose publishes are written to the outbox in `transaction`
+   * (the outbox store's transaction type, e.g. a pg client, or the bun:sqlite Database
+   * of a caller-managed transaction for SqliteOutboxStore)
+   * @throws Error if no outbox is configured
+   */
+  withTransaction(transaction: unknown): MessagingClient<TRegistry>
+
   /** Optional dedupe store */
   dedupe?: DedupeStore
 }
 
 /**
- * Messaging client plugin
- * 
- * Provides type-safe message publishing via decorator
- * 
- * @example
- * ```ts
- * const app = new Elysia()
- *   .use(messaging({ registry: myTopics, bus: redisStreamsBus }))
- *   .post('/publish', async ({ messaging }) => {
- *     await messaging.publish('video.jobs', { videoId: '123' })
- *   })
- * ```
+ * Create a messaging client (publish with validation and hooks)
+ * Used by the `messaging()` plugin; also handy outside Elysia (scripts, tests)
  */
-export const messaging = <TRegistry extends TopicRegistry<any>>(
-  config: MessagingClientConfig<TRegistry>
-) => {
-  const { registry, bus, dedupe, hooks, name = 'messaging' } = config
+export function createMessagingClient<TRegistry extends TopicRegistry<any>>(
+  config: Omit<MessagingClientConfig<TRegistry>, 'name'>
+): MessagingClient<TRegistry> {
+  const {
+    registry,
+    bus,
+    dedupe,
+    publishDedupeTtl,
+    hooks,
+    metrics,
+    tracer,
+    scheduleStore,
+    outbox,
+  } = config
 
   // Resolve bus (single or resolver)
   const getBus = (topic: TopicName<TRegistry>): MessageBus => {
@@ -99,31 +193,60 @@ export const messaging = <TRegistry extends TopicRegistry<any>>(
     return bus
   }
 
+  // In outbox mode, messages go to the outbox (the relay publishes them to the bus)
+  const outboxBus = outbox && new OutboxBus(outbox)
+  const getPublishBus = (
+    topic: TopicName<TRegistry>,
+    transaction?: unknown,
+    idempotencyKey?: string
+  ): MessageBus => {
+    if (!outbox) {
+      return getBus(topic)
+    }
+    if (transaction === undefined && idempotencyKey === undefined) {
+      return outboxBus!
+    }
+    return new OutboxBus(outbox, transaction, idempotencyKey)
+  }
+
   // Create publish function with hooks
   const publishWithHooks = async <TTopic extends TopicName<TRegistry>>(
     topic: TTopic,
     payload: TopicPayload<TRegistry, TTopic>,
-    meta?: {
-      jobId?: string
-      correlationId?: string
-      causationId?: string
-    }
+    meta?: PublishMeta,
+    transaction?: unknown
   ): Promise<void> => {
-    const selectedBus = getBus(topic)
+    const selectedBus = getPublishBus(topic, transaction, meta?.idempotencyKey)
     const publish = createPublishFunction(registry, selectedBus, {
       validate: true,
+      tracer,
     })
 
     let envelope: any
+    const startedAt = Date.now()
     try {
       // Call publish and capture envelope
       envelope = await publish(topic, payload, meta)
 
+      // The outbox already held the idempotency key: nothing was written
+      if (selectedBus instanceof OutboxBus && selectedBus.skipped > 0) {
+        console.log(
+          `[Messaging Client] Duplicate publish skipped: ${topic} (key: ${meta?.idempotencyKey})`
+        )
+        return
+      }
+      metrics?.recordPublish(topic, Date.now() - startedAt)
+
       // Hook: onPublish (receives the real envelope)
       if (hooks?.onPublish) {
         await hooks.onPublish(topic, envelope)
       }
     } catch (error) {
+      // Count only failed publishes (not a throwing onPublish hook)
+      if (!envelope) {
+        metrics?.recordPublish(topic, Date.now() - startedAt, error)
+      }
+
       // Hook: onPublishError (receives envelope if available, or fallback context)
       if (hooks?.onPublishError) {
         const errorContext = envelope || {
@@ -138,23 +261,231 @@ export const messaging = <TRegistry extends TopicRegistry<any>>(
     }
   }
 
-  // Create messaging client
-  const client: MessagingClient<TRegistry> = {
+  // Publish at most once per idempotency key (the key is released if publishing fails)
+  const publishOnce = async <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    payload: TopicPayload<TRegistry, TTopic>,
+    meta?: PublishMeta,
+    transaction?: unknown
+  ): Promise<void> => {
+    const idempotencyKey = meta?.idempotencyKey
+
+    // In outbox mode the store enforces the key in the write's transaction (freed on rollback)
+    if (!idempotencyKey || outbox) {
+      return publishWithHooks(topic, payload, meta, transaction)
+    }
+    if (!dedupe) {
+      throw new Error('idempotencyKey requires a dedupe store (`dedupe` option)')
+    }
+
+    const key = `publish:${topic}:${idempotencyKey}`
+    let lease = await acquireDedupeLease(dedupe, key, PUBLISH_LEASE_MS)
+
+    // Another publish of the key is in flight: wait until it is recorded or released
+    const waitUntil = Date.now() + PUBLISH_LEASE_MS
+    while (lease === 'in-progress' && Date.now() < waitUntil) {
+      await sleep(PUBLISH_WAIT_POLL_MS)
+      lease = await acquireDedupeLease(dedupe, key, PUBLISH_LEASE_MS)
+    }
+
+    if (lease === 'in-progress') {
+      throw new Error(`Publish to ${topic} with idempotencyKey ${idempotencyKey} is still in progress`)
+    }
+    if (lease === 'completed') {
+      console.log(`[Messaging Client] Duplicate publish skipped: ${topic} (key: ${idempotencyKey})`)
+      return
+    }
+
+    try {
+      await publishWithHooks(topic, payload, meta, transaction)
+    } catch (error) {
+      await releaseDedupeLease(dedupe, key).catch((releaseError) =>
+        console.error(`[Messaging Client] Failed to release ${key}:`, releaseError)
+      )
+      throw error
+    }
+    await completeDedupeLease(dedupe, key, publishDedupeTtl)
+  }
+
+  // Create batch publish function with per-message hooks
+  const publishBatchWithHooks = async <TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    payloads: TopicPayload<TRegistry, TTopic>[],
+    meta?: PublishMeta,
+    transaction?: unknown
+  ): Promise<MessageEnvelope<TopicPayload<TRegistry, TTopic>>[]> => {
+    if (meta?.idempotencyKey) {
+      throw new Error('publishBatch() does not support idempotencyKey')
+    }
+
+    const publishBatch = createPublishBatchFunction(registry, getPublishBus(topic, transaction), {
+      validate: true,
+      tracer,
+    })
+
+    let envelopes: MessageEnvelope<TopicPayload<TRegistry, TTopic>>[] = []
+    let failures: PublishBatchError<TopicPayload<TRegistry, TTopic>>['failures'] = []
+    let batchError: unknown
+    const startedAt = Date.now()
+
+    try {
+      envelopes = await publishBatch(topic, payloads, meta)
+    } catch (error) {
+      if (!(error instanceof PublishBatchError)) {
+        // Nothing was published (e.g. invalid payloads)
+        metrics?.recordPublish(topic, Date.now() - startedAt, error)
+        if (hooks?.onPublishError) {
+          await hooks.onPublishError(topic, { topic, payloads, meta, error }, error as Error)
+        }
+        throw error
+      }
+
+      envelopes = error.envelopes
+      failures = error.failures
+      batchError = error
+    }
+
+    // Report each message (metrics count every message with the batch's latency)
+    const durationMs = Date.now() - startedAt
+    const failed = new Map(failures.map((failure) => [failure.index, failure.error]))
+
+    for (const [index, envelope] of envelopes.entries()) {
+      const error = failed.get(index)
+      metrics?.recordPublish(topic, durationMs, error)
+
+      if (error && hooks?.onPublishError) {
+        await hooks.onPublishError(topic, envelope, error)
+      } else if (!error && hooks?.onPublish) {
+        await hooks.onPublish(topic, envelope)
+      }
+    }
+
+    if (batchError) {
+      throw batchError
+    }
+    return envelopes
+  }
+
+  // Recurring publishers go through the same validation and hooks
+  const schedules = new RecurringScheduler<TRegistry>({
+    publish: (topic, payload, meta) => publishOnce(topic, payload, meta),
+    store: scheduleStore,
+  })
+
+  // Client with default meta (derived clients stack their defaults)
+  const createClient = (
+    defaults: PublishMeta,
+    transaction?: unknown
+  ): MessagingClient<TRegistry> => ({
     registry,
-    publish: publishWithHooks as any,
+    publish: ((topic: TopicName<TRegistry>, payload: any, meta?: PublishMeta) =>
+      publishOnce(topic, payload, mergeMeta(defaults, meta), transaction)) as any,
+    publishBatch: ((topic: TopicName<TRegistry>, payloads: any[], meta?: PublishMeta) =>
+      publishBatchWithHooks(topic, payloads, mergeMeta(defaults, meta), transaction)) as any,
+    cancelScheduled: async (topic, eventId) =>
+      (await getBus(topic).cancelScheduled?.(eventId)) ?? false,
+    schedule: (name, definition) => schedules.add(name, definition),
+    schedules,
     getBus,
+    withContext: (meta) => createClient(mergeMeta(defaults, meta), transaction),
+    withTransaction: (transaction) => {
+      if (!outbox) {
+        throw new Error('withTransaction() requires an outbox')
+      }
+      return createClient(defaults, transaction)
+    },
     dedupe,
+  })
+
+  return createClient({})
+}
+
+/**
+ * How long a publish holds its idempotency key before it is recorded (ms)
+ */
+const PUBLISH_LEASE_MS = 30000
+
+/**
+ * Interval between checks of an idempotency key another publish holds (ms)
+ */
+const PUBLISH_WAIT_POLL_MS = 50
+
+/**
+ * Merge publish meta, ignoring undefined overrides (headers are merged key by key)
+ */
+function mergeMeta(defaults: PublishMeta, meta?: PublishMeta): PublishMeta {
+  const merged: PublishMeta = { ...defaults }
+  for (const [key, value] of Object.entries(meta ?? {})) {
+    if (value !== undefined) {
+      Object.assign(merged, { [key]: value })
+    }
+  }
+  if (defaults.headers && meta?.headers) {
+    merged.headers = { ...defaults.headers, ...meta.headers }
   }
+  return merged
+}
+
+/**
+ * Messaging client plugin
+ * 
+ * Provides type-safe message publishing via decorator
+ * 
+ * @example
+ * ```ts
+ * const app = new Elysia()
+ *   .use(messaging({ registry: myTopics, bus: redisStreamsBus }))
+ *   .post('/publish', async ({ messaging }) => {
+ *     await messaging.publish('video.jobs', { videoId: '123' })
+ *   })
+ * ```
+ */
+export const messaging = <TRegistry extends TopicRegistry<any>>(
+  config: MessagingClientConfig<TRegistry>
+) => {
+  const {
+    bus,
+    dedupe,
+    scheduleStore,
+    outbox,
+    outboxRelay,
+    correlationHeader,
+    name = 'messaging',
+  } = config
+  const correlationHeaders = correlationHeader ? [correlationHeader].flat() : []
+
+  // Create messaging client
+  const client = createMessagingClient(config)
+
+  // Relay outbox messages to the bus while the app runs
+  const relay =
+    outbox && outboxRelay !== false
+      ? new OutboxRelay({ ...outboxRelay, store: outbox, bus: bus as OutboxRelayOptions['bus'] })
+      : undefined
 
   return new Elysia({
     name: `elysia-messaging:client${name !== 'messaging' ? `:${name}` : ''}`,
     seed: config,
   })
     .decorate(name, client)
+    .derive({ as: 'global' }, ({ headers }) => {
+      // Request-scoped client stamping the incoming correlation ID
+      const correlationId = getCorrelationId(headers, correlationHeaders)
+      return correlationId ? { [name]: client.withContext({ correlationId }) } : {}
+    })
+    .onStart(() => {
+      relay?.start()
+    })
     .onStop(async (ctx) => {
       // Graceful shutdown
       console.log('[Messaging Client] Shutting down...')
-      
+
+      // Stop recurring publishers before closing the bus
+      await client.schedules.stopAll()
+
+      // Finish the current relay pass before closing the bus
+      await relay?.stop()
+
       // Close bus connections
       if (typeof bus === 'function') {
         // Can't close all, user manages lifecycle
@@ -166,9 +497,42 @@ export const messaging = <TRegistry extends TopicRegistry<any>>(
       if (dedupe) {
         await dedupe.close()
       }
+
+      // Close schedule store
+      if (scheduleStore) {
+        await scheduleStore.close()
+      }
+
+      // Close outbox store
+      if (outbox) {
+        await outbox.close()
+      }
     })
 }
 
+/**
+ * Correlation ID from the first configured header present on a request
+ * (`traceparent` is reduced to its trace ID)
+ */
+function getCorrelationId(
+  headers: Record<string, string | undefined>,
+  names: string[]
+): string | undefined {
+  for (const name of names) {
+    const value = headers[name.toLowerCase()]?.trim()
+    if (!value) continue
+
+    if (name.toLowerCase() === 'traceparent') {
+      const traceId = value.split('-')[1]
+      if (traceId && /^[0-9a-f]{32}$/.test(traceId)) return traceId
+      continue
+    }
+
+    return value
+  }
+  return undefined
+}
+
 /**
  * Type helper for inferring messaging decorator
  */
@@ -6,12 +6,13 @@
 import { Elysia } from 'elysia'
 import type { MessageConsumer } from './core/message-consumer.port'
 import type { DedupeStore } from './core/dedupe-store.port'
-import type { ConsumerDescriptor, HandlerContext } from './core/consumer-descriptor'
+import type { ConsumerDescriptor } from './core/consumer-descriptor'
 import { createConsumer, createConsumerFromClass } from './core/consumer-descriptor'
 import type { TopicRegistry, TopicName } from './core/registry.types'
-import { validateTopicPayload } from './core/registry'
-import type { MessageEnvelope } from './core/message-envelope'
-import type { MessagingClient } from './plugin-client'
+import type { ConsumerHooks } from './core/handler-wrapper'
+import { ConsumerManager } from './core/consumer-manager'
+import type { MessagingMetrics } from './core/metrics'
+import type { MessagingTracer } from './core/tracing'
 
 // Re-export createConsumer and createConsumerFromClass for convenience
 export { createConsumer, createConsumerFromClass }
@@ -30,38 +31,18 @@ export interface MessagingConsumersConfig<TRegistry extends TopicRegistry<any>>
   dedupe?: DedupeStore
 
   /** Hooks for observability */
-  hooks?: {
-    onMessage?: <TTopic extends TopicName<TRegistry>>(
-      topic: TTopic,
-      envelope: MessageEnvelope<any>
-    ) => Promise<void> | void
+  hooks?: ConsumerHooks<TRegistry>
 
-    onError?: <TTopic extends TopicName<TRegistry>>(
-      topic: TTopic,
-      envelope: MessageEnvelope<any>,
-      error: Error,
-      attempt: number
-    ) => Promise<void> | void
+  /** Built-in metrics (handler duration, ack / retry / DLQ / dedupe-skip counters) */
+  metrics?: MessagingMetrics
 
-    onRetry?: <TTopic extends TopicName<TRegistry>>(
-      topic: TTopic,
-      envelope: MessageEnvelope<any>,
-      attempt: number
-    ) => Promise<void> | void
+  /** Tracer for consumer spans (default: OpenTelemetry if installed, no-op otherwise) */
+  tracer?: MessagingTracer
 
-    onDLQ?: <TTopic extends TopicName<TRegistry>>(
-      topic: TTopic,
-      envelope: MessageEnvelope<any>,
-      error: Error
-    ) => Promise<void> | void
+  /** How long onStop waits for in-flight handlers before aborting them (ms, default: adapter's) */
+  shutdownTimeoutMs?: number
 
-    onAck?: <TTopic extends TopicName<TRegistry>>(
-      topic: TTopic,
-      envelope: MessageEnvelope<any>
-    ) => Promise<void> | void
-  }
-
-  /** Plugin name */
+  /** Plugin name (also the context key of the consumer manager, default: 'consumers') */
   name?: string
 }
 
@@ -75,7 +56,9 @@ export type ConsumerResolver<TRegistry extends TopicRegistry<any>> = (
 /**
  * Messaging consumers plugin
  * 
- * Registers consumers and manages their lifecycle (start/stop)
+ * Registers consumers and manages their lifecycle (start/stop).
+ * The ConsumerManager is decorated on the context (as `consumers` by default)
+ * to list, add, pause, resume or stop consumers and change their concurrency at runtime.
  * 
  * @example
  * ```ts
@@ -93,12 +76,22 @@ export type ConsumerResolver<TRegistry extends TopicRegistry<any>> = (
  *     consumers: [consumer],
  *     consumer: redisStreamsConsumer,
  *   }))
+ *   .post('/ops/consumers/:id/pause', ({ consumers, params }) => consumers.pause(params.id))
  * ```
  */
 export const messagingConsumers = <TRegistry extends TopicRegistry<any>>(
   config: MessagingConsumersConfig<TRegistry>
 ) => {
-  const { consumers, consumer: consumerAdapter, dedupe, hooks, name = 'consumers' } = config
+  const {
+    consumers,
+    consumer: consumerAdapter,
+    dedupe,
+    hooks,
+    metrics,
+    tracer,
+    shutdownTimeoutMs,
+    name = 'consumers',
+  } = config
 
   // Resolve consumer adapter
   const getConsumer = (topic: TopicName<TRegistry>): MessageConsumer => {
@@ -108,161 +101,47 @@ export const messagingConsumers = <TRegistry extends TopicRegistry<any>>(
     return consumerAdapter
   }
 
-  // Wrap handler with validation, hooks, and idempotency
-  const wrapHandler = <TTopic extends TopicName<TRegistry>>(
-    descriptor: ConsumerDescriptor<TRegistry, TTopic>,
-    messagingClient?: MessagingClient<TRegistry>
-  ) => {
-    const { topic, handler, options = {}, __registry: registry } = descriptor
-
-    return async (envelope: MessageEnvelope<any>) => {
-      // Hook: onMessage
-      if (hooks?.onMessage) {
-        await hooks.onMessage(topic, envelope)
-      }
-
-      // Idempotency check
-      if (options.idempotency && dedupe) {
-        if (await dedupe.has(envelope.eventId)) {
-          console.log(`[Consumer] Duplicate message skipped: ${envelope.eventId}`)
-          
-          // Hook: onAck (already processed)
-          if (hooks?.onAck) {
-            await hooks.onAck(topic, envelope)
-          }
-          
-          return
-        }
-      }
-
-      // Validate payload
-      try {
-        validateTopicPayload(registry, topic, envelope.payload)
-      } catch (error) {
-        if (options.skipInvalidPayload) {
-          console.error(`[Consumer] Invalid payload, skipping:`, error)
-          
-          // Hook: onAck (skipped)
-          if (hooks?.onAck) {
-            await hooks.onAck(topic, envelope)
-          }
-          
-          return
-        }
-        throw error
-      }
-
-      // Execute handler with retry logic
-      // Safely handle undefined attempts (default to 0)
-      const baseAttempts = envelope.attempts ?? 0
-      let attempt = baseAttempts + 1
-      const maxRetries = options.maxRetries ?? 3
-
-      while (attempt <= maxRetries) {
-        try {
-          // Update envelope attempts for this iteration (for hooks)
-          const envelopeWithAttempt = { ...envelope, attempts: attempt }
-
-          // Detect handler signature and call appropriately
-          const handlerContext: HandlerContext<any, typeof messagingClient> = {
-            envelope: envelopeWithAttempt,
-            attempt,
-            messaging: messagingClient,
-          }
-
-          // Try to detect signature by checking handler.length or just calling with context
-          // If handler expects single param (legacy), pass envelope; otherwise pass context
-          if (handler.length === 1) {
-            // Legacy signature: handler(envelope)
-            await (handler as any)(envelopeWithAttempt)
-          } else {
-            // Enhanced signature: handler({ envelope, attempt, messaging })
-            await (handler as any)(handlerContext)
-          }
-
-          // Mark as processed
-          if (options.idempotency && dedupe) {
-            await dedupe.mark(envelope.eventId, options.dedupeTtl)
-          }
-
-          // Hook: onAck
-          if (hooks?.onAck) {
-            await hooks.onAck(topic, envelopeWithAttempt)
-          }
-
-          return
-        } catch (error) {
-          console.error(`[Consumer] Handler failed (attempt ${attempt}/${maxRetries}):`, error)
-
-          // Hook: onError (with current attempt in envelope)
-          if (hooks?.onError) {
-            await hooks.onError(topic, { ...envelope, attempts: attempt }, error as Error, attempt)
-          }
-
-          if (attempt < maxRetries) {
-            // Hook: onRetry
-            if (hooks?.onRetry) {
-              await hooks.onRetry(topic, { ...envelope, attempts: attempt }, attempt)
-            }
-
-            // Delay before retry (can be enhanced with backoff strategy later)
-            if (options.retryDelayMs) {
-              await new Promise((resolve) => setTimeout(resolve, options.retryDelayMs))
-            }
-
-            attempt++
-          } else {
-            // Max retries exceeded, send to DLQ
-            console.error(`[Consumer] Max retries exceeded, sending to DLQ`)
-
-            // Hook: onDLQ
-            if (hooks?.onDLQ) {
-              await hooks.onDLQ(topic, { ...envelope, attempts: attempt }, error as Error)
-            }
-
-            throw error
-          }
-        }
-      }
-    }
+  const manager = new ConsumerManager<TRegistry>({
+    resolveConsumer: getConsumer,
+    hooks,
+    dedupe,
+    metrics,
+    tracer,
+  })
+  for (const descriptor of consumers) {
+    manager.register(descriptor)
   }
 
   return new Elysia({
     name: `elysia-messaging:consumers${name !== 'consumers' ? `:${name}` : ''}`,
     seed: config,
   })
+    .decorate(name, manager)
     .onStart(async (ctx) => {
       console.log(`[Messaging Consumers] Starting ${consumers.length} consumer(s)...`)
 
       // Try to get messaging client from context (if available)
       const messagingClient = (ctx as any).messaging
 
-      // Register all consumers
-      for (const descriptor of consumers) {
-        const { topic, group, name: consumerName, options = {} } = descriptor
-        const adapter = getConsumer(topic)
-        const wrappedHandler = wrapHandler(descriptor, messagingClient)
-
-        console.log(`[Messaging Consumers] Registering: ${topic} (${group}/${consumerName})`)
-
-        await adapter.subscribe(topic, wrappedHandler, {
-          consumerGroup: group,
-          consumerName,
-          maxRetries: options.maxRetries,
-          blockMs: options.blockMs,
-          startId: options.startId,
-        })
-      }
+      // Subscribe all registered consumers
+      await manager.start(messagingClient)
 
       console.log(`[Messaging Consumers] All consumers started`)
     })
     .onStop(async () => {
       console.log(`[Messaging Consumers] Stopping...`)
 
-      // Close consumer adapter
+      // Stop each subscription (drains in-flight handlers, resolves once its loop has exited)
+      await manager.stopAll({ timeoutMs: shutdownTimeoutMs })
+
+      // Close consumer adapters
+      const adapters = new Set(manager.adapters())
       if (typeof consumerAdapter !== 'function') {
-        await consumerAdapter.close()
+        adapters.add(consumerAdapter)
       }
+      await Promise.all(
+        [...adapters].map((adapter) => adapter.close({ timeoutMs: shutdownTimeoutMs }))
+      )
 
       // Close dedupe store
       if (dedupe) {
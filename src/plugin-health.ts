@@ -0,0 +1,63 @@
+/**
+ * Messaging health plugin
+ * Liveness and readiness routes for Kubernetes-style probes
+ */
+
+import { Elysia } from 'elysia'
+import type { ConsumerManager } from './core/consumer-manager'
+import type { MessagingHealthOptions } from './core/health-check'
+import { MessagingHealth } from './core/health-check'
+
+/**
+ * Messaging health configuration
+ */
+export interface MessagingHealthConfig extends MessagingHealthOptions {
+  /** Route prefix (default: '/health') */
+  prefix?: string
+
+  /** Plugin name (for multiple instances) */
+  name?: string
+}
+
+/**
+ * Messaging health plugin
+ *
+ * Routes (under `prefix`), answering 200 when the check passes and 503 otherwise:
+ * - `GET /live`: consumer loops are polling and not crash-looping
+ * - `GET /ready`: liveness + broker ping + consumers started + lag / pending thresholds
+ *
+ * Consumers default to the `consumers` decorator of messagingConsumers, if present.
+ *
+ * @example
+ * ```ts
+ * const app = new Elysia()
+ *   .use(messagingConsumers({ consumers, consumer: redisConsumer }))
+ *   .use(messagingHealth({
+ *     inspector: new RedisStreamsInspector(redis),
+ *     thresholds: { maxPollAgeMs: 30_000, maxLag: 10_000 },
+ *   }))
+ * ```
+ */
+export const messagingHealth = (config: MessagingHealthConfig = {}) => {
+  const { prefix = '/health', name = 'health', ...options } = config
+  const health = new MessagingHealth(options)
+
+  const getConsumers = (ctx: unknown): ConsumerManager<any> | undefined =>
+    config.consumers ?? (ctx as any).consumers
+
+  return new Elysia({
+    name: `elysia-messaging:health${name !== 'health' ? `:${name}` : ''}`,
+    seed: config,
+    prefix,
+  })
+    .get('/live', async (ctx) => {
+      const report = await health.liveness(getConsumers(ctx))
+      ctx.set.status = report.status === 'pass' ? 200 : 503
+      return report
+    })
+    .get('/ready', async (ctx) => {
+      const report = await health.readiness(getConsumers(ctx))
+      ctx.set.status = report.status === 'pass' ? 200 : 503
+      return report
+    })
+}
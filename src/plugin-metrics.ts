@@ -0,0 +1,51 @@
+/**
+ * Messaging metrics plugin
+ * Serves built-in metrics in Prometheus text format
+ */
+
+import { Elysia } from 'elysia'
+import type { ConsumerManager } from './core/consumer-manager'
+import type { MessagingMetrics } from './core/metrics'
+
+/**
+ * Messaging metrics configuration
+ */
+export interface MessagingMetricsConfig {
+  /** Metrics instance shared with messaging() / messagingConsumers() */
+  metrics: MessagingMetrics
+
+  /** Consumers whose lag / pending gauges to collect (default: the `consumers` decorator, if present) */
+  consumers?: ConsumerManager<any>
+
+  /** Route path (default: '/metrics') */
+  path?: string
+
+  /** Plugin name (for multiple instances) */
+  name?: string
+}
+
+/**
+ * Messaging metrics plugin
+ *
+ * @example
+ * ```ts
+ * const metrics = new MessagingMetrics({ inspector: new RedisStreamsInspector(redis) })
+ *
+ * const app = new Elysia()
+ *   .use(messagingConsumers({ consumers, consumer: redisConsumer, metrics }))
+ *   .use(messagingMetrics({ metrics }))
+ * ```
+ */
+export const messagingMetrics = (config: MessagingMetricsConfig) => {
+  const { metrics, path = '/metrics', name = 'metrics' } = config
+
+  return new Elysia({
+    name: `elysia-messaging:metrics${name !== 'metrics' ? `:${name}` : ''}`,
+    seed: config,
+  }).get(path, async (ctx) => {
+    const body = await metrics.render(config.consumers ?? (ctx as any).consumers)
+    return new Response(body, {
+      headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+    })
+  })
+}
@@ -0,0 +1,13 @@
+/**
+ * Testing toolkit for elysia-messaging
+ *
+ * Usage:
+ * ```typescript
+ * import { createTestHarness, invokeHandler } from 'elysia-messaging/testing'
+ * ```
+ */
+
+export * from './test-harness'
+export * from './invoke-handler'
+export * from './recording-bus'
+export * from './matchers'
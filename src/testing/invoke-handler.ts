@@ -0,0 +1,186 @@
+/**
+ * Run a single consumer descriptor's handler with a fully-built context
+ */
+
+import type { ConsumerDescriptor } from '../core/consumer-descriptor'
+import type { ConsumerHooks } from '../core/handler-wrapper'
+import { wrapHandler } from '../core/handler-wrapper'
+import type { DedupeStore } from '../core/dedupe-store.port'
+import type { MessageDisposition } from '../core/message-consumer.port'
+import type { MessageEnvelope } from '../core/message-envelope'
+import { createEnvelope } from '../core/message-envelope'
+import type { TopicRegistry, TopicName, TopicPayload } from '../core/registry.types'
+import { getTopicDefinition } from '../core/registry'
+import { classifyError } from '../core/errors'
+import type { FailureDecision } from '../core/retry-policy'
+import { getRetryPolicy, resolveRetryDecision } from '../core/retry-policy'
+import type { MessagingClient } from '../plugin-client'
+import { createMessagingClient } from '../plugin-client'
+import { RecordingBus } from './recording-bus'
+
+/**
+ * Options for invokeHandler()
+ */
+export interface InvokeHandlerOptions<TRegistry extends TopicRegistry<any>> {
+  /** Envelope fields to override (jobId, correlationId, attempts, ...) */
+  meta?: Partial<MessageEnvelope<any>>
+
+  /** Broker delivery count (default: 1) */
+  deliveryCount?: number
+
+  /** Messaging client injected into the context (default: a client publishing to a RecordingBus) */
+  messaging?: MessagingClient<TRegistry>
+
+  /** Consumer hooks to run alongside */
+  hooks?: ConsumerHooks<TRegistry>
+
+  /** Dedupe store (for descriptors with idempotency enabled) */
+  dedupe?: DedupeStore
+
+  /** Skip retry delays while keeping retry/DLQ decisions (default: true) */
+  instantRetries?: boolean
+}
+
+/**
+ * Outcome of invokeHandler()
+ */
+export interface InvokeHandlerResult<TPayload = any> {
+  /** What the adapter would do with the message */
+  outcome: 'ack' | 'drop' | 'dlq' | 'retry'
+
+  /** Raw disposition returned by the wrapped handler */
+  disposition: MessageDisposition | void
+
+  /** Envelope that was delivered */
+  envelope: MessageEnvelope<TPayload>
+
+  /** Number of times the handler ran */
+  attempts: number
+
+  /** Handler errors, one per failed attempt */
+  errors: Error[]
+
+  /** Failure decisions, one per failed attempt */
+  decisions: FailureDecision[]
+
+  /** Bus the default messaging client published to (undefined if `messaging` was provided) */
+  bus?: RecordingBus
+}
+
+/**
+ * Build an envelope for a registry topic (messageType taken from the registry)
+ */
+export function createTestEnvelope<
+  TRegistry extends TopicRegistry<any>,
+  TTopic extends TopicName<TRegistry>
+>(
+  registry: TRegistry,
+  topic: TTopic,
+  payload: TopicPayload<TRegistry, TTopic>,
+  meta?: Partial<MessageEnvelope<TopicPayload<TRegistry, TTopic>>>
+): MessageEnvelope<TopicPayload<TRegistry, TTopic>> {
+  const definition = getTopicDefinition(registry, topic)
+  return createEnvelope(
+    definition.messageType || topic,
+    meta?.jobId || crypto.randomUUID(),
+    payload,
+    meta
+  )
+}
+
+/**
+ * Invoke a descriptor's handler the way messagingConsumers would
+ * (validation, idempotency, retries, DLQ decisions and hooks included)
+ *
+ * @example
+ * ```ts
+ * const result = await invokeHandler(videoJobsConsumer, { videoId: '123', url: '...' })
+ * expect(result.outcome).toBe('ack')
+ * result.bus?.published('video.results')
+ * ```
+ */
+export async function invokeHandler<
+  TRegistry extends TopicRegistry<any>,
+  TTopic extends TopicName<TRegistry>
+>(
+  descriptor: ConsumerDescriptor<TRegistry, TTopic>,
+  payload: TopicPayload<TRegistry, TTopic>,
+  options: InvokeHandlerOptions<TRegistry> = {}
+): Promise<InvokeHandlerResult<TopicPayload<TRegistry, TTopic>>> {
+  const { meta, deliveryCount = 1, hooks, dedupe, instantRetries = true } = options
+  const registry = descriptor.__registry
+  const envelope = createTestEnvelope(registry, descriptor.topic, payload, meta)
+
+  const bus = options.messaging ? undefined : new RecordingBus()
+  const messaging = options.messaging ?? createMessagingClient({ registry, bus: bus as RecordingBus })
+
+  const errors: Error[] = []
+  const decisions: FailureDecision[] = []
+  let attempts = 0
+
+  // Count handler runs (keeping the legacy/enhanced signature detectable by arity)
+  const { handler } = descriptor
+  const counted: ConsumerDescriptor<TRegistry, TTopic> = {
+    ...descriptor,
+    handler:
+      handler.length === 1
+        ? (envelope: any) => {
+            attempts++
+            return (handler as any)(envelope)
+          }
+        : (...args: any[]) => {
+            attempts++
+            return (handler as any)(...args)
+          },
+  }
+
+  const wrapped = wrapHandler(instantRetries ? withoutRetryDelays(counted) : counted, {
+    dedupe,
+    messaging,
+    hooks: {
+      ...hooks,
+      onError: async (topic, failed, error, attempt, decision) => {
+        errors.push(error)
+        decisions.push(decision)
+        await hooks?.onError?.(topic, failed, error, attempt, decision)
+      },
+    },
+  })
+
+  const disposition = await wrapped(envelope, { messageId: `test-${envelope.eventId}`, deliveryCount })
+
+  return {
+    outcome: disposition?.action ?? 'ack',
+    disposition,
+    envelope,
+    attempts,
+    errors,
+    decisions,
+    bus,
+  }
+}
+
+/**
+ * Copy a descriptor with zero retry delays (decisions unchanged)
+ */
+function withoutRetryDelays<TRegistry extends TopicRegistry<any>, TTopic extends TopicName<TRegistry>>(
+  descriptor: ConsumerDescriptor<TRegistry, TTopic>
+): ConsumerDescriptor<TRegistry, TTopic> {
+  const options = descriptor.options ?? {}
+  const policy = getRetryPolicy(options)
+
+  return {
+    ...descriptor,
+    options: {
+      ...options,
+      retry: (attempt, error, envelope) => {
+        const decision = resolveRetryDecision(policy, attempt, error, envelope)
+        return typeof decision === 'number' ? 0 : decision
+      },
+      classifyError: (error, ctx) => {
+        const classification = options.classifyError?.(error, ctx) ?? classifyError(error)
+        return typeof classification === 'object' ? 'retry' : classification
+      },
+    },
+  }
+}
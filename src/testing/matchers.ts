@@ -0,0 +1,115 @@
+/**
+ * Envelope matching and assertions for tests
+ */
+
+import type { MessageEnvelope } from '../core/message-envelope'
+
+/**
+ * Recursive partial of a payload
+ */
+export type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+
+/**
+ * Matches an envelope by partial payload or predicate
+ */
+export type EnvelopeMatcher<TPayload = any> =
+  | DeepPartial<TPayload>
+  | ((envelope: MessageEnvelope<TPayload>) => boolean)
+
+/**
+ * Thrown by the testing assertions (works with any test runner)
+ */
+export class MessagingAssertionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessagingAssertionError'
+  }
+}
+
+/**
+ * Check if `actual` contains everything in `expected` (objects compared recursively)
+ */
+export function matchesPartial(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return Object.is(actual, expected)
+  }
+
+  if (actual === null || typeof actual !== 'object') {
+    return false
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesPartial(actual[index], item))
+    )
+  }
+
+  return Object.entries(expected).every(([key, value]) =>
+    matchesPartial((actual as Record<string, unknown>)[key], value)
+  )
+}
+
+/**
+ * Check an envelope against a matcher (no matcher matches everything)
+ */
+export function matchesEnvelope<TPayload>(
+  envelope: MessageEnvelope<TPayload>,
+  matcher?: EnvelopeMatcher<TPayload>
+): boolean {
+  if (matcher === undefined) {
+    return true
+  }
+
+  if (typeof matcher === 'function') {
+    return (matcher as (envelope: MessageEnvelope<TPayload>) => boolean)(envelope)
+  }
+
+  return matchesPartial(envelope.payload, matcher)
+}
+
+/**
+ * Assert that at least one envelope matches
+ * @returns the first matching envelope
+ */
+export function expectEnvelope<TPayload>(
+  topic: string,
+  envelopes: MessageEnvelope<TPayload>[],
+  matcher?: EnvelopeMatcher<TPayload>
+): MessageEnvelope<TPayload> {
+  const match = envelopes.find((envelope) => matchesEnvelope(envelope, matcher))
+
+  if (!match) {
+    throw new MessagingAssertionError(
+      `Expected a message published to "${topic}"${describeMatcher(matcher)}, ` +
+        `got ${envelopes.length}: ${JSON.stringify(envelopes.map((envelope) => envelope.payload))}`
+    )
+  }
+
+  return match
+}
+
+/**
+ * Assert that no envelope matches
+ */
+export function expectNoEnvelope<TPayload>(
+  topic: string,
+  envelopes: MessageEnvelope<TPayload>[],
+  matcher?: EnvelopeMatcher<TPayload>
+): void {
+  const match = envelopes.find((envelope) => matchesEnvelope(envelope, matcher))
+
+  if (match) {
+    throw new MessagingAssertionError(
+      `Expected no message published to "${topic}"${describeMatcher(matcher)}, ` +
+        `got: ${JSON.stringify(match.payload)}`
+    )
+  }
+}
+
+function describeMatcher(matcher: unknown): string {
+  if (matcher === undefined) return ''
+  if (typeof matcher === 'function') return ' matching predicate'
+  return ` matching ${JSON.stringify(matcher)}`
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from '../core/registry'
+import type { TestHarness } from './test-harness'
+import { createTestHarness } from './test-harness'
+import { MessagingAssertionError } from './matchers'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String() }),
+  },
+})
+
+let harness: TestHarness<typeof registry>
+
+afterEach(async () => {
+  await harness.stop()
+})
+
+describe('RecordingBus', () => {
+  test('records delayed publishes apart from immediate ones', async () => {
+    harness = createTestHarness(registry)
+    const before = Date.now()
+
+    await harness.publish('video.jobs', { videoId: 'now' })
+    await harness.publish('video.jobs', { videoId: 'later' }, { delayMs: 60_000 })
+
+    expect(harness.published('video.jobs').map((envelope) => envelope.payload)).toEqual([
+      { videoId: 'now' },
+    ])
+
+    const { deliverAt } = harness.expectScheduled('video.jobs', { videoId: 'later' })
+    expect(deliverAt).toBeGreaterThanOrEqual(before + 60_000)
+    expect(deliverAt).toBeLessThanOrEqual(Date.now() + 60_000)
+
+    expect(() => harness.expectScheduled('video.jobs', { videoId: 'now' })).toThrow(
+      MessagingAssertionError
+    )
+  })
+
+  test('moves delayed publishes to published() once delivered', async () => {
+    harness = createTestHarness(registry)
+
+    await harness.publish('video.jobs', { videoId: 'soon' }, { delayMs: 30 })
+    harness.expectNotPublished('video.jobs')
+    await harness.drain()
+
+    harness.expectPublished('video.jobs', { videoId: 'soon' })
+    expect(harness.scheduled('video.jobs')).toHaveLength(0)
+  })
+
+  test('forgets cancelled delayed publishes', async () => {
+    harness = createTestHarness(registry)
+
+    await harness.publish('video.jobs', { videoId: 'later' }, { delayMs: 60_000 })
+    const { envelope } = harness.expectScheduled('video.jobs')
+
+    expect(await harness.messaging.cancelScheduled('video.jobs', envelope.eventId)).toBe(true)
+    expect(harness.scheduled('video.jobs')).toHaveLength(0)
+    expect(harness.bus.topics()).toEqual(['video.jobs'])
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * MessageBus decorator that records every published envelope per topic
+ */
+
+import type { MessageBus, PublishOptions } from '../core/message-bus.port'
+import { resolveDeliverAt } from '../core/message-bus.port'
+import type { MessageEnvelope } from '../core/message-envelope'
+import type { TopicName } from '../core/topics'
+import { InMemoryBus } from '../adapters/memory/memory.bus'
+
+/**
+ * A delayed publish recorded by RecordingBus
+ */
+export interface ScheduledPublish<T = any> {
+  envelope: MessageEnvelope<T>
+
+  /** Delivery time (epoch ms) */
+  deliverAt: number
+}
+
+export class RecordingBus implements MessageBus {
+  private readonly records = new Map<string, MessageEnvelope<any>[]>()
+  private readonly delayed = new Map<string, ScheduledPublish[]>()
+
+  /**
+   * @param inner Bus to forward to (default: a standalone in-memory bus)
+   */
+  constructor(readonly inner: MessageBus = new InMemoryBus()) {}
+
+  async publish<T>(
+    topic: TopicName | string,
+    envelope: MessageEnvelope<T>,
+    options?: PublishOptions
+  ): Promise<void> {
+    await this.inner.publish(topic, envelope, options)
+
+    const deliverAt = resolveDeliverAt(options)
+    if (deliverAt !== undefined) {
+      append(this.delayed, topic, { envelope, deliverAt })
+      return
+    }
+
+    append(this.records, topic, envelope)
+  }
+
+  async cancelScheduled(eventId: string): Promise<boolean> {
+    const cancelled = (await this.inner.cancelScheduled?.(eventId)) ?? false
+
+    if (cancelled) {
+      for (const [topic, entries] of this.delayed) {
+        this.delayed.set(topic, entries.filter((entry) => entry.envelope.eventId !== eventId))
+      }
+    }
+
+    return cancelled
+  }
+
+  /**
+   * Envelopes published to a topic for immediate delivery (oldest first);
+   * delayed publishes are appended once their delivery time has passed
+   */
+  published<T = any>(topic: string): MessageEnvelope<T>[] {
+    this.moveDue()
+    return [...(this.records.get(topic) ?? [])]
+  }
+
+  /**
+   * Delayed publishes to a topic that are not due yet, with their delivery time
+   * (oldest first, cancelled ones removed)
+   */
+  scheduled<T = any>(topic: string): ScheduledPublish<T>[] {
+    this.moveDue()
+    return [...(this.delayed.get(topic) ?? [])]
+  }
+
+  /**
+   * Topics that received at least one message (immediate or delayed)
+   */
+  topics(): string[] {
+    return [...new Set([...this.records.keys(), ...this.delayed.keys()])]
+  }
+
+  /**
+   * Forget recorded envelopes
+   */
+  clear(): void {
+    this.records.clear()
+    this.delayed.clear()
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close()
+  }
+
+  /**
+   * Move delayed publishes whose delivery time has passed to the published records
+   */
+  private moveDue(): void {
+    const now = Date.now()
+
+    for (const [topic, entries] of this.delayed) {
+      const due = entries.filter((entry) => entry.deliverAt <= now)
+      if (due.length === 0) continue
+
+      this.delayed.set(topic, entries.filter((entry) => entry.deliverAt > now))
+      due
+        .sort((a, b) => a.deliverAt - b.deliverAt)
+        .forEach((entry) => append(this.records, topic, entry.envelope))
+    }
+  }
+}
+
+function append<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const values = map.get(key) ?? []
+  values.push(value)
+  map.set(key, values)
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Type } from '@sinclair/typebox'
+import { createTopicRegistry } from '../core/registry'
+import { createConsumer } from '../core/consumer-descriptor'
+import type { TestHarness } from './test-harness'
+import { createTestHarness } from './test-harness'
+import { invokeHandler } from './invoke-handler'
+import { MessagingAssertionError } from './matchers'
+
+const registry = createTopicRegistry({
+  'video.jobs': {
+    schema: Type.Object({ videoId: Type.String(), priority: Type.Number() }),
+  },
+})
+
+const received: string[] = []
+const videoJobs = createConsumer(registry, {
+  topic: 'video.jobs',
+  group: 'workers',
+  name: 'worker-1',
+  async handler(envelope) {
+    received.push(envelope.payload.videoId)
+  },
+})
+
+let harness: TestHarness<typeof registry> | undefined
+
+afterEach(async () => {
+  await harness?.stop()
+  harness = undefined
+  received.length = 0
+})
+
+describe('createTestHarness', () => {
+  test('delivers published messages to the consumers and waits for them in drain()', async () => {
+    harness = createTestHarness(registry, { consumers: [videoJobs] })
+    await harness.start()
+
+    await harness.publish('video.jobs', { videoId: 'v1', priority: 1 })
+    await harness.publish('video.jobs', { videoId: 'v2', priority: 5 })
+    await harness.drain()
+
+    expect(received).toEqual(['v1', 'v2'])
+    expect(harness.broker.getGroups('video.jobs')).toMatchObject([{ pending: 0, lag: 0 }])
+  })
+
+  test('matches published messages by partial payload or predicate', async () => {
+    harness = createTestHarness(registry)
+
+    await harness.publish('video.jobs', { videoId: 'v1', priority: 1 })
+
+    const envelope = harness.expectPublished('video.jobs', { videoId: 'v1' })
+    expect(envelope.payload.priority).toBe(1)
+    harness.expectPublished('video.jobs', (envelope) => envelope.payload.priority < 3)
+    harness.expectNotPublished('video.jobs', { videoId: 'v2' })
+
+    expect(() => harness!.expectPublished('video.jobs', { priority: 2 })).toThrow(
+      MessagingAssertionError
+    )
+    expect(() => harness!.expectNotPublished('video.jobs')).toThrow(MessagingAssertionError)
+  })
+})
+
+describe('invokeHandler', () => {
+  test('runs the handler once and reports an ack', async () => {
+    const result = await invokeHandler(videoJobs, { videoId: 'v1', priority: 1 })
+
+    expect(result).toMatchObject({ outcome: 'ack', attempts: 1, errors: [], decisions: [] })
+    expect(result.envelope.payload).toEqual({ videoId: 'v1', priority: 1 })
+    expect(received).toEqual(['v1'])
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * In-process test harness: in-memory broker, messaging client and consumers
+ */
+
+import type { ConsumerDescriptor } from '../core/consumer-descriptor'
+import type { ConsumerHooks } from '../core/handler-wrapper'
+import { wrapHandler, getSubscribeOptions } from '../core/handler-wrapper'
+import type { DedupeStore } from '../core/dedupe-store.port'
+import type { MessageEnvelope } from '../core/message-envelope'
+import type { TopicRegistry, TopicName, TopicPayload } from '../core/registry.types'
+import type { MessagingClient, MessagingClientConfig } from '../plugin-client'
+import { createMessagingClient } from '../plugin-client'
+import { InMemoryBroker } from '../adapters/memory/memory.broker'
+import { InMemoryBus } from '../adapters/memory/memory.bus'
+import { InMemoryConsumer } from '../adapters/memory/memory.consumer'
+import { InMemoryDedupeStore } from '../adapters/memory/memory-dedupe.store'
+import type { InMemoryDeadLetterQueue } from '../adapters/memory/memory-dead-letter.queue'
+import type { EnvelopeMatcher } from './matchers'
+import { expectEnvelope, expectNoEnvelope, MessagingAssertionError } from './matchers'
+import type { ScheduledPublish } from './recording-bus'
+import { RecordingBus } from './recording-bus'
+
+/**
+ * Test harness configuration
+ */
+export interface TestHarnessOptions<TRegistry extends TopicRegistry<any>> {
+  /** Consumers to run (started by `start()`) */
+  consumers?: ConsumerDescriptor<TRegistry, any>[]
+
+  /** Consumer hooks */
+  hooks?: ConsumerHooks<TRegistry>
+
+  /** Publisher hooks */
+  publishHooks?: MessagingClientConfig<TRegistry>['hooks']
+
+  /** Dedupe store (default: InMemoryDedupeStore) */
+  dedupe?: DedupeStore
+
+  /** Consumer poll block time (ms, default: 20) */
+  blockMs?: number
+}
+
+/**
+ * Test harness returned by createTestHarness()
+ */
+export interface TestHarness<TRegistry extends TopicRegistry<any>> {
+  readonly broker: InMemoryBroker
+  readonly bus: RecordingBus
+  readonly consumer: InMemoryConsumer
+  readonly dedupe: DedupeStore
+  readonly dlq: InMemoryDeadLetterQueue
+
+  /** Messaging client (also injected into consumer handlers) */
+  readonly messaging: MessagingClient<TRegistry>
+
+  /** Publish through the messaging client (validation + hooks) */
+  publish: MessagingClient<TRegistry>['publish']
+
+  /** Subscribe all configured consumers */
+  start(): Promise<void>
+
+  /** Wait until every consumer is idle (nothing pending, unread or scheduled) */
+  drain(options?: { timeoutMs?: number }): Promise<void>
+
+  /** Envelopes published to a topic via the messaging client (delayed ones once due) */
+  published<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic
+  ): MessageEnvelope<TopicPayload<TRegistry, TTopic>>[]
+
+  /** Delayed publishes to a topic not due yet, with their delivery time */
+  scheduled<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic
+  ): ScheduledPublish<TopicPayload<TRegistry, TTopic>>[]
+
+  /** Assert a matching message was published; returns it */
+  expectPublished<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    matcher?: EnvelopeMatcher<TopicPayload<TRegistry, TTopic>>
+  ): MessageEnvelope<TopicPayload<TRegistry, TTopic>>
+
+  /** Assert no matching message was published */
+  expectNotPublished<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    matcher?: EnvelopeMatcher<TopicPayload<TRegistry, TTopic>>
+  ): void
+
+  /** Assert a matching delayed message is not due yet; returns it with its delivery time */
+  expectScheduled<TTopic extends TopicName<TRegistry>>(
+    topic: TTopic,
+    matcher?: EnvelopeMatcher<TopicPayload<TRegistry, TTopic>>
+  ): ScheduledPublish<TopicPayload<TRegistry, TTopic>>
+
+  /** Forget recorded publishes */
+  clear(): void
+
+  /** Stop recurring publishers and consumers, and release the broker */
+  stop(): Promise<void>
+}
+
+/**
+ * Create an in-process harness for consumer and publisher tests
+ *
+ * @example
+ * ```ts
+ * const harness = createTestHarness(registry, { consumers: [videoJobsConsumer] })
+ * await harness.start()
+ *
+ * await harness.publish('video.jobs', { videoId: '123', url: '...' })
+ * await harness.drain()
+ *
+ * harness.expectPublished('video.results', { videoId: '123', success: true })
+ * await harness.stop()
+ * ```
+ */
+export function createTestHarness<TRegistry extends TopicRegistry<any>>(
+  registry: TRegistry,
+  options: TestHarnessOptions<TRegistry> = {}
+): TestHarness<TRegistry> {
+  const { consumers = [], hooks, publishHooks, blockMs = 20 } = options
+
+  const broker = new InMemoryBroker()
+  const bus = new RecordingBus(new InMemoryBus(broker))
+  const consumer = new InMemoryConsumer(broker)
+  const dedupe = options.dedupe ?? new InMemoryDedupeStore()
+  const messaging = createMessagingClient({ registry, bus, dedupe, hooks: publishHooks })
+
+  const isIdle = (): boolean =>
+    broker.scheduledCount === 0 &&
+    broker
+      .getTopics()
+      .every((topic) => broker.getGroups(topic).every((group) => group.pending === 0 && group.lag === 0))
+
+  return {
+    broker,
+    bus,
+    consumer,
+    dedupe,
+    dlq: broker.dlq,
+    messaging,
+    publish: messaging.publish,
+
+    async start() {
+      for (const descriptor of consumers) {
+        await consumer.subscribe(
+          descriptor.topic,
+          wrapHandler(descriptor, { hooks, dedupe, messaging }),
+          { ...getSubscribeOptions(descriptor), blockMs }
+        )
+      }
+    },
+
+    async drain({ timeoutMs = 5000 } = {}) {
+      const deadline = Date.now() + timeoutMs
+
+      while (!isIdle()) {
+        if (Date.now() >= deadline) {
+          const state = broker.getTopics().map((topic) => ({ topic, groups: broker.getGroups(topic) }))
+          throw new MessagingAssertionError(
+            `Consumers did not become idle within ${timeoutMs}ms: ${JSON.stringify(state)}`
+          )
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5))
+      }
+    },
+
+    published(topic) {
+      return bus.published(topic)
+    },
+
+    expectPublished(topic, matcher) {
+      return expectEnvelope(topic, bus.published(topic), matcher)
+    },
+
+    expectNotPublished(topic, matcher) {
+      expectNoEnvelope(topic, bus.published(topic), matcher)
+    },
+
+    scheduled(topic) {
+      return bus.scheduled(topic)
+    },
+
+    expectScheduled(topic, matcher) {
+      const scheduled = bus.scheduled(topic)
+      const envelope = expectEnvelope(topic, scheduled.map((entry) => entry.envelope), matcher)
+      return scheduled.find((entry) => entry.envelope === envelope)!
+    },
+
+    clear() {
+      bus.clear()
+    },
+
+    async stop() {
+      await messaging.schedules.stopAll()
+      await consumer.close()
+      broker.close()
+    },
+  }
+}